@@ -1,1193 +1,5699 @@
-import { Plugin, TFile, Notice, PluginSettingTab, Setting, App, Modal } from 'obsidian';
-import { google } from 'googleapis';
+import { Plugin, PluginManifest, TFile, TFolder, TAbstractFile, Notice, PluginSettingTab, Setting, App, Modal, FuzzySuggestModal, ItemView, WorkspaceLeaf, Component, MarkdownRenderer, getFrontMatterInfo, moment } from 'obsidian';
+import { google, Auth } from 'googleapis';
 import { Readable } from 'stream';
-import { createHash } from 'crypto';
+import { createHash, createHmac, createCipheriv, createDecipheriv, randomBytes, scrypt } from 'crypto';
+import { hostname } from 'os';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { RemoteBackend, RemoteItem, RemoteChange, RemoteChanges, RemoteWrite, DriveApiError, FOLDER_MIME_TYPE } from './remote-backend';
+
+// State of a file as of the last time it was successfully synced
+interface SyncRecord {
+	id: string; // Drive file id
+	hash: string; // MD5 of the content, comparable with Drive's md5Checksum
+	size: number;
+	mtime: number; // vault mtime
+	remoteModifiedTime: string; // Drive modifiedTime
+	remoteHash?: string; // Drive md5Checksum when it isn't the MD5 of the content, as for encrypted files
+	movedFrom?: string; // path on Drive when renamed in the vault after the last sync
+}
 
-interface GoogleDriveSyncSettings {
+// A file on the vault side of a sync: either a TFile or a file in the config
+// folder, which the vault doesn't index and is only reachable through the adapter
+interface LocalFile {
+	path: string;
+	name: string;
+	stat: { mtime: number; size: number };
+}
+
+type SyncAction = 'upload' | 'download' | 'delete-remote' | 'delete-local' | 'conflict' | 'in-sync' | 'skip' | 'forget';
+
+interface SyncDecision {
+	action: SyncAction;
+	reason: string;
+	localHash?: string;
+}
+
+interface SyncPlanItem {
+	path: string;
+	vaultFile?: LocalFile;
+	driveFile?: DriveFile;
+	decision: SyncDecision;
+}
+
+type SyncOperation = SyncAction | 'move';
+
+// A file that failed to sync; it is retried on every sync unless ignored
+interface SyncFailure {
+	path: string;
+	operation: SyncOperation;
+	status?: number; // HTTP status when Google Drive rejected the request
+	message: string;
+	failedAt: number;
+	ignored?: boolean; // skipped by sync until retried from the errors view
+}
+
+// A rename or move detected on one side, applied to the file on the other side
+interface PlannedMove {
+	from: string;
+	to: string;
+	target: 'vault' | 'drive'; // side the file is moved on
+}
+
+// Moves and per-path actions approved in the sync preview
+interface ApprovedPlan {
+	moves: PlannedMove[];
+	actions: Record<string, SyncAction>; // path -> action shown in the preview
+}
+
+type SyncTrigger = 'command' | 'interval' | 'file-event' | 'retry' | 'preview';
+
+interface SyncOptions {
+	trigger?: SyncTrigger; // defaults to 'command'
+	onlyPaths?: string[]; // sync just these paths, as if everything else were excluded
+	approved?: ApprovedPlan;
+}
+
+// needs-review: merged, but with conflict markers left in the file
+type SyncOutcome = 'done' | 'failed' | 'queued' | 'needs-review';
+
+// How a conflict was dealt with, for the sync history
+interface ConflictHandling {
+	outcome: SyncOutcome;
+	detail: string;
+}
+
+// A file action taken during a sync run
+interface SyncHistoryEntry {
+	path: string;
+	action: SyncOperation;
+	outcome: SyncOutcome;
+	detail: string; // why it was done, or the error when it failed
+	time: number;
+}
+
+// A sync run as kept in the sync history
+interface SyncRun {
+	startedAt: number;
+	finishedAt: number;
+	trigger: SyncTrigger;
+	direction: 'to-drive' | 'from-drive' | 'both';
+	status: 'running' | 'completed' | 'failed';
+	error?: string;
+	entries: SyncHistoryEntry[];
+}
+
+// A native Google file to export into the vault
+interface GoogleExportItem {
+	path: string; // vault path of the export
+	driveFile: DriveFile;
+	mimeType: string; // export format
+}
+
+interface PreparedSync {
+	plan: SyncPlanItem[];
+	moves: PlannedMove[]; // applied, or only detected in a dry run
+	exports: GoogleExportItem[];
+	staleExports: string[]; // exported paths whose Google file is gone or no longer exported
+}
+
+type DeletionChoice = 'delete' | 'skip' | 'restore';
+
+// A file in the synced Drive folder, with its path relative to that folder
+interface DriveFile {
+	id: string;
+	name: string;
+	mimeType: string;
+	modifiedTime: string;
+	size?: string; // int64 as a decimal string, absent for Google-native files
+	md5Checksum?: string; // absent for Google-native files
+	path: string;
+}
+
+interface DriveFolder {
+	id: string;
+	name: string;
+	path: string; // '' for the synced root
+	folders: DriveFolder[];
+	files: DriveFile[];
+}
+
+// Snapshot of the synced Drive folder, kept current through the Changes API
+interface RemoteIndex {
+	rootId: string; // folderId the index was built for
+	pageToken: string; // RemoteBackend.changes cursor to resume from
+	folders: Record<string, string>; // Drive folder id -> vault path ('' for the root)
+	files: Record<string, DriveFile>; // Drive file id -> Drive file
+}
+
+// Where interrupted resumable uploads are remembered between syncs, by vault path
+interface UploadSessionStore {
+	get(path: string): UploadSession | undefined;
+	set(path: string, session: UploadSession): Promise<void>;
+	remove(path: string): Promise<void>;
+}
+
+type ConflictResolution = 'overwrite' | 'keep-local' | 'keep-remote' | 'ask' | 'merge' | 'keep-both';
+
+type ConflictChoice = 'keep-local' | 'use-remote' | 'keep-both';
+
+// A conflict left for the user to resolve; its path is skipped by sync until then
+interface PendingConflict {
+	path: string;
+	driveFileId: string;
+	detectedAt: number;
+}
+
+// An upload sent in chunks, kept so it can continue after an interruption
+interface UploadSession {
+	uri: string; // resumable session URI returned by Drive
+	fileId?: string; // Drive file being updated, absent when creating a new one
+	hash: string; // MD5 of the content being uploaded, so a changed file starts over
+	size: number;
+	startedAt: number;
+}
+
+// Vault format of each kind of native Google file, as a file extension, or '' to leave it out
+interface GoogleExportFormats {
+	document: string;
+	spreadsheet: string;
+	presentation: string;
+}
+
+// A native Google file as last exported into the vault
+interface GoogleExport {
+	id: string; // Drive id of the Google file
+	modifiedTime: string; // of the Google file when exported
+}
+
+// A copy of a local file taken before sync overwrote or deleted it
+interface SyncSnapshot {
+	path: string;
+	hash: string; // MD5 of the content, also the name of the stored copy
+	size: number;
+	takenAt: number;
+	reason: 'overwrite' | 'delete';
+}
+
+// A stored version of a Drive file
+interface DriveRevision {
+	id: string;
+	modifiedTime: string;
+	size: number; // of the vault content, without encryption overhead
+	keepForever: boolean;
+	modifiedBy: string;
+}
+
+// Parts of the config folder to sync, all off by default
+interface ConfigSyncSettings {
+	core: boolean; // top-level settings files such as app.json, appearance.json and core-plugins.json
+	communityPlugins: boolean; // community-plugins.json, the list of enabled community plugins
+	plugins: boolean; // plugins/, code and data of installed community plugins
+	themes: boolean; // themes/
+	snippets: boolean; // snippets/
+	hotkeys: boolean; // hotkeys.json
+}
+
+// Google sign-in details, kept out of data.json (see saveCredentials)
+interface Credentials {
 	clientId: string;
 	clientSecret: string;
-	folderId: string;
 	refreshToken: string;
-	lastSyncTime: number;
-	syncInterval: number; // in minutes
-	autoSync: boolean;
-	conflictResolution: 'overwrite' | 'keep-local' | 'keep-remote' | 'ask';
+	encryptionPassphrase: string;
 }
 
-const DEFAULT_SETTINGS: GoogleDriveSyncSettings = {
-	clientId: '',
-	clientSecret: '',
-	folderId: '',
-	refreshToken: '',
-	lastSyncTime: 0,
-	syncInterval: 15, // 15 minutes
-	autoSync: true,
-	conflictResolution: 'overwrite'
+// As saved in local storage
+interface StoredCredentials {
+	encrypted: boolean; // with the operating system's keychain, through Electron's safeStorage
+	data: string; // the credentials as JSON, base64-encoded ciphertext when encrypted
 }
 
-export default class GoogleDriveSyncPlugin extends Plugin {
-	settings: GoogleDriveSyncSettings;
-	statusBarItem: HTMLElement;
-	syncIntervalId: NodeJS.Timeout | null = null;
-	syncAnimationId: NodeJS.Timeout | null = null;
+// The part of Electron's safeStorage used here
+interface SafeStorage {
+	isEncryptionAvailable(): boolean;
+	encryptString(plainText: string): Buffer;
+	decryptString(encrypted: Buffer): string;
+}
 
-	async onload() {
-		console.log('Loading Google Drive Sync plugin');
+// drive.file only reaches files and folders the plugin created or was given
+type DriveScope = 'drive' | 'drive.file';
 
-		await this.loadSettings();
+// A folder offered as the one to sync with
+interface DriveFolderChoice {
+	id: string;
+	name: string;
+}
 
-		// Add status bar item
-		this.statusBarItem = this.addStatusBarItem();
-		this.updateStatusBar('Ready');
+// The passphrase is kept with the credentials
+interface EncryptionSettings {
+	enabled: boolean;
+}
 
-		// Setup automatic sync
-		this.setupAutoSync();
+// Keys derived from the encryption passphrase, one per purpose
+interface EncryptionKeys {
+	content: Buffer; // AES-256-GCM key for file contents
+	contentIv: Buffer; // HMAC key deriving content IVs
+	name: Buffer; // AES-256-CTR key for file and folder names
+	nameIv: Buffer; // HMAC key deriving name IVs
+}
 
-		// Add command to authenticate with Google Drive
-		this.addCommand({
-			id: 'authenticate-google-drive',
-			name: 'Authenticate with Google Drive',
-			callback: () => {
-				this.authenticate();
-			}
-		});
+// Contents of KEY_CHECK_FILE_NAME
+interface KeyCheck {
+	version: number;
+	kdf: 'scrypt';
+	N: number;
+	r: number;
+	p: number;
+	salt: string; // base64
+	check: string; // KEY_CHECK_TEXT encrypted with the derived keys, base64
+}
 
-		// Add command to sync vault to Google Drive
-		this.addCommand({
-			id: 'sync-to-google-drive',
-			name: 'Sync Vault to Google Drive',
-			callback: () => {
-				this.performSync(true, false);
-			}
-		});
+interface GoogleDriveSyncSettings {
+	driveScope: DriveScope; // access requested when signing in
+	folderId: string;
+	lastSyncTime: number; // decides files without a sync record on installs upgraded from before sync records
+	syncInterval: number; // in minutes
+	autoSync: boolean;
+	conflictResolution: ConflictResolution;
+	deviceName: string; // used in conflict copy names, defaults to the hostname
+	syncState: Record<string, SyncRecord>; // vault path -> last synced state
+	remoteIndex: RemoteIndex | null;
+	pendingConflicts: Record<string, PendingConflict>; // vault path -> unresolved conflict
+	syncFailures: Record<string, SyncFailure>; // vault path -> last failed operation
+	folderMoves: Record<string, string>; // vault folder path -> its path on Drive when renamed in the vault after the last sync
+	deletionConfirmCount: number; // ask before deleting more files than this in one sync (0 = no limit)
+	deletionConfirmPercent: number; // ask before deleting more than this share of synced files (0 = no limit)
+	excludePatterns: string; // gitignore-style, one per line, combined with the vault's .gdriveignore
+	transferConcurrency: number; // uploads, downloads and deletions run at the same time
+	configSync: ConfigSyncSettings;
+	uploadSessions: Record<string, UploadSession>; // vault path -> interrupted resumable upload
+	encryption: EncryptionSettings;
+	snapshotRetentionDays: number; // keep local snapshots this long (0 = no snapshots)
+	snapshotMaxSize: number; // in MB, oldest snapshots are dropped beyond it (0 = no limit)
+	googleExportFormats: GoogleExportFormats;
+	googleExports: Record<string, GoogleExport>; // vault path -> exported Google file
+	publishedDocs: Record<string, string>; // Google Doc id -> MD5 of the note body last published to it
+}
 
-		// Add command to sync from Google Drive
-		this.addCommand({
-			id: 'sync-from-google-drive',
-			name: 'Sync Vault from Google Drive',
-			callback: () => {
-				this.performSync(false, true);
-			}
-		});
+// Files larger than this are uploaded in chunks through a resumable session
+const RESUMABLE_UPLOAD_THRESHOLD = 5 * 1024 * 1024;
 
-		// Add command to sync both ways
-		this.addCommand({
-			id: 'sync-bidirectional',
-			name: 'Sync Both Ways',
-			callback: () => {
-				console.log('Starting bidirectional sync (toDrive=true, fromDrive=true)');
-				this.performSync(true, true);
-			}
-		});
+// Drive requires chunks to be a multiple of 256 KiB
+const RESUMABLE_CHUNK_SIZE = 32 * 256 * 1024;
 
-		// Add settings tab
-		this.addSettingTab(new GoogleDriveSyncSettingTab(this.app, this));
-	}
+// Drive expires resumable sessions after a week; older ones are started over
+const UPLOAD_SESSION_MAX_AGE = 6 * 24 * 60 * 60 * 1000;
 
-	onunload() {
-		console.log('Unloading Google Drive Sync plugin');
-		if (this.syncIntervalId) {
-			clearInterval(this.syncIntervalId);
-		}
-		if (this.syncTimeoutId) {
-			clearTimeout(this.syncTimeoutId);
-		}
-		if (this.syncAnimationId) {
-			clearInterval(this.syncAnimationId);
-		}
-	}
+const DRIVE_FILE_FIELDS = 'id,name,mimeType,modifiedTime,size,md5Checksum';
 
-	async loadSettings() {
-		this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
-		this.setupAutoSync();
-	}
+// Everything a RemoteItem is made from
+const REMOTE_ITEM_FIELDS = `${DRIVE_FILE_FIELDS},parents`;
 
-	async saveSettings() {
-		await this.saveData(this.settings);
-	}
+const DRIVE_SCOPES: Record<DriveScope, string> = {
+	'drive': 'https://www.googleapis.com/auth/drive',
+	'drive.file': 'https://www.googleapis.com/auth/drive.file',
+};
 
-	private updateStatusBar(text: string) {
-		let icon = '';
-		switch (text) {
-			case 'Ready':
-				icon = '✓';
-				break;
-			case 'Sync failed':
-				icon = '✗';
-				break;
-			default:
-				if (text.startsWith('Synced')) {
-					icon = '✓';
-				}
-				break;
-		}
-		this.statusBarItem.setText(`${icon} ${text}`);
-	}
+// Local storage belongs to this vault on this device and lives outside the vault folder,
+// so neither this plugin's sync nor Obsidian Sync or a git repository picks it up
+const CREDENTIALS_STORAGE_KEY = 'google-drive-sync-credentials';
 
-	private startSyncAnimation() {
-		if (this.syncAnimationId) {
-			clearInterval(this.syncAnimationId);
-		}
+// Fields that older versions kept in data.json
+const CREDENTIAL_KEYS: (keyof Credentials)[] = ['clientId', 'clientSecret', 'refreshToken'];
 
-		const frames = ['⠋', '⠙', '⠹', '⠸', '⠼', '⠴', '⠦', '⠧', '⠇', '⠏'];
-		let frameIndex = 0;
+// Docs, Sheets, Slides and other files that only exist in Google's own formats
+const GOOGLE_APPS_MIME_PREFIX = 'application/vnd.google-apps.';
 
-		this.syncAnimationId = setInterval(() => {
-			this.statusBarItem.setText(`${frames[frameIndex]} Syncing...`);
-			frameIndex = (frameIndex + 1) % frames.length;
-		}, 100);
-	}
+const GOOGLE_FILE_TYPES: Record<string, keyof GoogleExportFormats> = {
+	'application/vnd.google-apps.document': 'document',
+	'application/vnd.google-apps.spreadsheet': 'spreadsheet',
+	'application/vnd.google-apps.presentation': 'presentation',
+};
 
-	private stopSyncAnimation() {
-		if (this.syncAnimationId) {
-			clearInterval(this.syncAnimationId);
-			this.syncAnimationId = null;
-		}
-	}
+// Export formats offered for each kind of Google file: extension -> export MIME type
+const GOOGLE_EXPORT_FORMATS: Record<keyof GoogleExportFormats, Record<string, string>> = {
+	document: {
+		md: 'text/markdown',
+		docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+		pdf: 'application/pdf',
+	},
+	spreadsheet: {
+		csv: 'text/csv',
+		xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+		pdf: 'application/pdf',
+	},
+	presentation: {
+		pdf: 'application/pdf',
+		pptx: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+	},
+};
 
-	public setupAutoSync() {
-		if (this.syncIntervalId) {
-			clearInterval(this.syncIntervalId);
-		}
-		if (this.syncTimeoutId) {
-			clearTimeout(this.syncTimeoutId);
-			this.syncTimeoutId = null;
-		}
+const CONFLICT_VIEW_TYPE = 'google-drive-sync-conflicts';
 
-		if (this.settings.autoSync && this.settings.refreshToken && this.settings.folderId) {
-			this.syncIntervalId = setInterval(() => {
-				this.performSync();
-			}, this.settings.syncInterval * 60 * 1000); // Convert minutes to milliseconds
+const SYNC_ERRORS_VIEW_TYPE = 'google-drive-sync-errors';
 
-			// Also register for file change events
-			this.registerEvent(this.app.vault.on('modify', () => {
-				if (this.settings.autoSync) {
-					// Debounce sync calls
-					if (this.syncTimeoutId) {
-						clearTimeout(this.syncTimeoutId);
-					}
-					this.syncTimeoutId = setTimeout(() => this.performSync(), 5000);
-				}
-			}));
-
-			// Also register for file deletion events
-			this.registerEvent(this.app.vault.on('delete', () => {
-				if (this.settings.autoSync) {
-					// Debounce sync calls
-					if (this.syncTimeoutId) {
-						clearTimeout(this.syncTimeoutId);
-					}
-					this.syncTimeoutId = setTimeout(() => this.performSync(), 5000);
-				}
-			}));
-
-			// Also register for file creation events
-			this.registerEvent(this.app.vault.on('create', () => {
-				if (this.settings.autoSync) {
-					// Debounce sync calls
-					if (this.syncTimeoutId) {
-						clearTimeout(this.syncTimeoutId);
-					}
-					this.syncTimeoutId = setTimeout(() => this.performSync(), 5000);
-				}
-			}));
-		}
-	}
+const SYNC_HISTORY_VIEW_TYPE = 'google-drive-sync-history';
 
-	private syncTimeoutId: NodeJS.Timeout | null = null;
+// Kept in the plugin folder rather than data.json, which is rewritten after every file
+const SYNC_HISTORY_FILE = 'sync-history.json';
 
-	private async performSync(toDrive: boolean = true, fromDrive: boolean = true) {
-		if (!this.settings.refreshToken || !this.settings.folderId) {
-			new Notice('Please authenticate and set Folder ID in settings');
-			return;
-		}
+// Oldest runs are dropped beyond this many runs, or this many file actions in total
+const SYNC_HISTORY_MAX_RUNS = 500;
+const SYNC_HISTORY_MAX_ENTRIES = 20000;
 
-		try {
-			this.startSyncAnimation();
-			console.log('Starting Google Drive sync');
+// Ignore file at the vault root, read in addition to the patterns in settings
+const IGNORE_FILE_NAME = '.gdriveignore';
 
-			const auth = this.getAuthClient();
-			const tokenResponse = await auth.getAccessToken();
-			const accessToken = typeof tokenResponse === 'string' ? tokenResponse : tokenResponse.token;
+// Folder in the plugin folder holding snapshots of local files, stored once per content
+// hash, and the index of which file each one was taken from
+const SNAPSHOT_FOLDER = 'snapshots';
+const SNAPSHOT_INDEX_FILE = `${SNAPSHOT_FOLDER}/index.json`;
 
-			if (!accessToken) {
-				throw new Error('No access token available');
-			}
+// Config folder files describing this device's window layout rather than the vault
+const DEVICE_CONFIG_FILES = ['workspace.json', 'workspace-mobile.json'];
 
-			// Validate folder exists and is accessible
-			try {
-			await this.validateDriveFolder(accessToken);
-			} catch (error) {
-			console.error('Drive folder validation failed:', error);
-			new Notice(`Google Drive sync failed: ${error.message}`);
-			 this.stopSyncAnimation();
-			return;
-			}
+// Files of this plugin that are synced with plugin code; the rest of its folder
+// (settings, sync state, merge bases) belongs to this device
+const PLUGIN_CODE_FILES = ['main.js', 'manifest.json', 'styles.css'];
 
-			const drive = google.drive({ version: 'v3', auth });
+// Frontmatter property holding the id of the Google Doc a note is published to
+const PUBLISHED_DOC_KEY = 'google-doc-id';
 
-			// Clear folder cache at start of sync
-			this.folderIdCache.clear();
+// Matches listed per rule in the exclude preview
+const IGNORE_PREVIEW_LIMIT = 50;
 
-			// Get all files from vault - use getFiles() for current vault state
-			const vaultFiles = this.app.vault.getFiles();
-			const vaultFileMap = new Map<string, TFile>();
+const CHANGES_FIELDS = `nextPageToken,newStartPageToken,changes(fileId,removed,file(${DRIVE_FILE_FIELDS},parents,trashed))`;
 
-			for (const file of vaultFiles) {
-				vaultFileMap.set(file.path, file); // Use full path as key
-			}
+// Retries for a Drive request failing with a rate limit, server or network error
+const MAX_REQUEST_RETRIES = 5;
 
-			// Get all files from Google Drive (recursively)
-			const driveFiles = await this.getDriveFilesRecursive(accessToken);
-			const driveFileMap = new Map<string, any>();
+// First retry delay, doubled on each further attempt
+const RETRY_BASE_DELAY = 1000;
 
-			for (const file of driveFiles) {
-				driveFileMap.set(file.path, file); // Use full path as key
-			}
+const MAX_RETRY_DELAY = 64 * 1000;
 
-			let deleted = 0;
+// Maximum number of folders listed at the same time
+const LIST_CONCURRENCY = 4;
 
-			let uploaded = 0, downloaded = 0, conflicts = 0;
-			const lastSync = this.settings.lastSyncTime;
+// The local listener for the OAuth redirect stops waiting after this long
+const AUTH_LISTENER_TIMEOUT = 5 * 60 * 1000;
 
-			// Refresh access token before upload operations
-			const uploadTokenResponse = await auth.getAccessToken();
-			let currentAccessToken = typeof uploadTokenResponse === 'string' ? uploadTokenResponse : uploadTokenResponse.token;
-			if (!currentAccessToken) {
-				throw new Error('Failed to refresh access token for upload operations');
+// Redirect used when no listener could be started: the browser can't load it, and
+// the code is copied from its address bar instead
+const FALLBACK_REDIRECT_URI = 'http://127.0.0.1';
+
+// Written to the root of an encrypted Drive folder. Holds the salt the keys are derived
+// with and a known text encrypted with them, so a wrong passphrase is caught before syncing
+const KEY_CHECK_FILE_NAME = '.obsidian-sync-encryption.json';
+const KEY_CHECK_TEXT = 'obsidian-google-drive-sync';
+
+// scrypt cost for newly encrypted folders, about 32 MB of memory
+const SCRYPT_PARAMS = { N: 32768, r: 8, p: 1 };
+
+// Encrypted files are the magic, the IV, the ciphertext and the GCM tag
+const ENCRYPTED_MAGIC = 'GDS1';
+const ENCRYPTION_IV_LENGTH = 12;
+const ENCRYPTION_TAG_LENGTH = 16;
+const ENCRYPTION_OVERHEAD = ENCRYPTED_MAGIC.length + ENCRYPTION_IV_LENGTH + ENCRYPTION_TAG_LENGTH;
+
+const NAME_IV_LENGTH = 16;
+
+// Encrypted files get their vault name and plaintext size; md5Checksum stays that of the ciphertext
+function toDriveFile(item: RemoteItem, path: string, encrypted = false): DriveFile {
+	return {
+		id: item.id,
+		name: encrypted ? path.substring(path.lastIndexOf('/') + 1) : item.name,
+		mimeType: item.mimeType,
+		modifiedTime: item.modifiedTime,
+		size: encrypted && item.size !== undefined ? String(Math.max(0, parseInt(item.size) - ENCRYPTION_OVERHEAD)) : item.size,
+		md5Checksum: item.md5Checksum,
+		path,
+	};
+}
+
+// Runs fn over items with at most `limit` calls in flight. After a failure no new
+// calls are started, and the first error is thrown once the running ones finish
+async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+	const results: R[] = new Array(items.length);
+	let next = 0;
+	let failure: { error: any } | null = null;
+
+	const worker = async () => {
+		while (next < items.length && !failure) {
+			const i = next++;
+			try {
+				results[i] = await fn(items[i]);
+			} catch (error) {
+				failure = failure || { error };
 			}
+		}
+	};
 
-			// Process vault files
-			for (const file of vaultFiles) {
-				if (!(file instanceof TFile)) continue;
+	await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker));
+	if (failure) {
+		throw (failure as { error: any }).error;
+	}
+	return results;
+}
 
-				const driveFile = driveFileMap.get(file.path);
-				const vaultMtime = file.stat.mtime;
+interface DriveRequestInit {
+	method?: string;
+	headers?: Record<string, string>;
+	body?: BodyInit;
+}
 
-				if (toDrive) {
-					if (!driveFile) {
-						// File doesn't exist on Drive, upload it
-						console.log(`New file in vault: ${file.path} (${file.stat.size} bytes)`);
+// Rate limits (429, or 403 with a rate limit reason) and server errors are worth retrying
+async function isRetryableResponse(response: Response): Promise<boolean> {
+	if (response.status === 429 || response.status >= 500) {
+		return true;
+	}
+	if (response.status !== 403) {
+		return false;
+	}
 
-						// Extract folder path and ensure it exists on Drive
-						const folderPath = file.path.includes('/') ? file.path.substring(0, file.path.lastIndexOf('/')) : '';
-						const parentFolderId = await this.ensureFolderPathExists(folderPath, currentAccessToken);
+	try {
+		const body = await response.clone().json();
+		const reason = body?.error?.errors?.[0]?.reason;
+		return reason === 'rateLimitExceeded' || reason === 'userRateLimitExceeded';
+	} catch (error) {
+		return false;
+	}
+}
 
-						await this.uploadFileToFolder(drive, file, currentAccessToken, parentFolderId);
-						uploaded++;
-					} else {
-						// File exists, check if it has changed since last sync
-						const driveMtime = new Date(driveFile.modifiedTime).getTime();
+// The delay asked for in Retry-After (seconds or an HTTP date), otherwise
+// exponential backoff with jitter so parallel transfers don't retry in lockstep
+function getRetryDelay(attempt: number, retryAfter: string | null): number {
+	if (retryAfter) {
+		const seconds = Number(retryAfter);
+		const delay = isNaN(seconds) ? Date.parse(retryAfter) - Date.now() : seconds * 1000;
+		if (!isNaN(delay)) {
+			return Math.min(Math.max(delay, 0), MAX_RETRY_DELAY);
+		}
+	}
 
-						// Only sync if the file has been modified since last sync (with small buffer)
-						const vaultChanged = vaultMtime > lastSync + 2000; // 2 second buffer
-						const driveChanged = driveMtime > lastSync + 2000;
+	const backoff = Math.min(RETRY_BASE_DELAY * Math.pow(2, attempt), MAX_RETRY_DELAY);
+	return backoff / 2 + Math.random() * backoff / 2;
+}
 
-						if (vaultChanged && driveChanged) {
-							// Potential conflict: both modified since last sync
-							// Check if content is actually identical (e.g., Welcome.md created on different devices)
-							const identicalContent = await this.filesHaveIdenticalContent(file, driveFile, currentAccessToken);
-							if (identicalContent) {
-								console.log(`Skipping conflict for ${file.path} - content is identical`);
-								// Files are identical, treat as in sync
-							} else {
-								// Real conflict: different content
-								await this.handleConflict(drive, file, driveFile, currentAccessToken);
-								conflicts++;
-							}
-						} else if (vaultChanged) {
-						// Only vault version changed, upload it
-						const updateFolderPath = file.path.includes('/') ? file.path.substring(0, file.path.lastIndexOf('/')) : '';
-						const updateParentId = await this.ensureFolderPathExists(updateFolderPath, currentAccessToken);
-						 await this.uploadFileToFolder(drive, file, currentAccessToken, updateParentId, driveFile.id);
-						uploaded++;
-					}
-						// If only drive changed, it will be handled in the drive files loop below
-					}
-				}
-			}
+type UploadProgress = { done: true; result: any } | { done: false; offset: number };
 
-			// Refresh access token before download operations
-			const downloadTokenResponse = await auth.getAccessToken();
-			const downloadAccessToken = typeof downloadTokenResponse === 'string' ? downloadTokenResponse : downloadTokenResponse.token;
-			if (!downloadAccessToken) {
-				throw new Error('Failed to refresh access token for download operations');
-			}
+interface MergeResult {
+	text: string;
+	conflicts: number; // hunks changed differently on both sides, left with conflict markers
+}
 
-			// Process Drive files
-			if (fromDrive) {
-				for (const driveFile of driveFiles) {
-					const vaultFile = vaultFileMap.get(driveFile.path);
+// Above this many LCS cells the changed middle of a file is treated as fully rewritten
+const MAX_DIFF_CELLS = 4000000;
+
+/**
+ * Longest-common-subsequence match between two line arrays. Returns, for every
+ * line of `a`, the index of the matching line in `b`, or -1 if it has none.
+ */
+function matchLines(a: string[], b: string[]): number[] {
+	const matches: number[] = new Array(a.length).fill(-1);
+
+	// Common prefix and suffix match trivially and keep the table small
+	let start = 0;
+	while (start < a.length && start < b.length && a[start] === b[start]) {
+		matches[start] = start;
+		start++;
+	}
+	let endA = a.length, endB = b.length;
+	while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+		endA--;
+		endB--;
+		matches[endA] = endB;
+	}
 
-					if (!vaultFile) {
-						// File doesn't exist in vault, check if it should be deleted or downloaded
-						const driveMtime = new Date(driveFile.modifiedTime).getTime();
+	const n = endA - start, m = endB - start;
+	if (n === 0 || m === 0 || (n + 1) * (m + 1) > MAX_DIFF_CELLS) {
+		return matches;
+	}
 
+	// lengths[i * (m + 1) + j] = LCS length of a[start + i..endA) and b[start + j..endB)
+	const lengths = new Uint32Array((n + 1) * (m + 1));
+	for (let i = n - 1; i >= 0; i--) {
+		for (let j = m - 1; j >= 0; j--) {
+			lengths[i * (m + 1) + j] = a[start + i] === b[start + j]
+				? lengths[(i + 1) * (m + 1) + j + 1] + 1
+				: Math.max(lengths[(i + 1) * (m + 1) + j], lengths[i * (m + 1) + j + 1]);
+		}
+	}
 
+	let i = 0, j = 0;
+	while (i < n && j < m) {
+		if (a[start + i] === b[start + j]) {
+			matches[start + i] = start + j;
+			i++;
+			j++;
+		} else if (lengths[(i + 1) * (m + 1) + j] >= lengths[i * (m + 1) + j + 1]) {
+			i++;
+		} else {
+			j++;
+		}
+	}
 
-						// If the drive file was created/modified after our last sync, it might be new
-						// If it was created before last sync, it might have been deleted from vault
-						if (driveMtime > lastSync + 2000) {
-							// File was added to Drive after last sync, download it (if we're doing downloads)
-							if (fromDrive) {
-								console.log(`Downloading ${driveFile.path}`);
-								await this.downloadFile(drive, driveFile, downloadAccessToken);
-								downloaded++;
-							}
-						}
-						// If file exists in Drive but not in vault and wasn't modified recently,
-						// it was likely deleted from vault and should be deleted from Drive too
-						else if (toDrive) {
-							// Only delete if we're doing upload operations (two-way or one-way to Drive)
-							console.log(`Deleting ${driveFile.path} from Google Drive`);
-
-							// Use the current download access token for deletion
-
-							if (downloadAccessToken) {
-								const deleteUrl = `https://www.googleapis.com/drive/v3/files/${driveFile.id}`;
-								const deleteResponse = await fetch(deleteUrl, {
-									method: 'DELETE',
-									headers: {
-										'Authorization': `Bearer ${downloadAccessToken}`,
-									},
-								});
-
-								if (deleteResponse.ok) {
-									deleted++;
-								} else {
-									console.error(`Failed to delete ${driveFile.name}: ${deleteResponse.status} ${deleteResponse.statusText}`);
-								}
-							}
-						}
-					} else {
-						// File exists in both places, check if drive version is newer
-						const driveMtime = new Date(driveFile.modifiedTime).getTime();
-						const vaultMtime = vaultFile.stat.mtime;
-
-						// Only sync if the drive file has been modified since last sync (with small buffer)
-						const driveChanged = driveMtime > lastSync + 2000; // 2 second buffer
-						const vaultChanged = vaultMtime > lastSync + 2000;
-
-						if (driveChanged && vaultChanged) {
-							// Already handled as conflict in vault files loop
-							continue;
-						} else if (driveChanged) {
-						// Only drive version changed, download it
-						await this.downloadFile(drive, driveFile, downloadAccessToken);
-						downloaded++;
-						}
-						// If only vault changed, it was already handled in the vault files loop above
-					}
-				}
-			}
+	return matches;
+}
 
-			this.settings.lastSyncTime = Date.now();
-			await this.saveSettings();
+function sameLines(a: string[], b: string[]): boolean {
+	return a.length === b.length && a.every((line, i) => line === b[i]);
+}
 
-			// Stop animation and show results in status bar
-			this.stopSyncAnimation();
+/**
+ * Line-based three-way merge. Hunks changed on only one side since `base` are
+ * taken from that side; hunks changed differently on both sides are kept with
+ * git-style conflict markers.
+ */
+function mergeText(base: string, local: string, remote: string): MergeResult {
+	const baseLines = base.split('\n');
+	const localLines = local.split('\n');
+	const remoteLines = remote.split('\n');
+	const toLocal = matchLines(baseLines, localLines);
+	const toRemote = matchLines(baseLines, remoteLines);
+
+	const merged: string[] = [];
+	let conflicts = 0;
+	let i = 0, j = 0, k = 0; // positions in base, local and remote
+
+	while (i < baseLines.length || j < localLines.length || k < remoteLines.length) {
+		// Base line kept unchanged on both sides
+		if (i < baseLines.length && toLocal[i] === j && toRemote[i] === k) {
+			merged.push(baseLines[i]);
+			i++;
+			j++;
+			k++;
+			continue;
+		}
 
-			// Create appropriate status message based on what happened
-			let statusMessage: string;
-			if (uploaded === 0 && downloaded === 0 && conflicts === 0 && deleted === 0) {
-				statusMessage = "Synced - No changes";
-			} else {
-				statusMessage = `Synced - ${uploaded}↑ ${downloaded}↓`;
-				if (deleted > 0) {
-					statusMessage += ` ${deleted}🗑`;
+		// Find the next base line kept on both sides; everything before it is one hunk
+		let next = i;
+		while (next < baseLines.length && (toLocal[next] < 0 || toRemote[next] < 0)) {
+			next++;
+		}
+		const localEnd = next < baseLines.length ? toLocal[next] : localLines.length;
+		const remoteEnd = next < baseLines.length ? toRemote[next] : remoteLines.length;
+
+		const baseHunk = baseLines.slice(i, next);
+		const localHunk = localLines.slice(j, localEnd);
+		const remoteHunk = remoteLines.slice(k, remoteEnd);
+
+		if (sameLines(localHunk, baseHunk) || sameLines(localHunk, remoteHunk)) {
+			merged.push(...remoteHunk);
+		} else if (sameLines(remoteHunk, baseHunk)) {
+			merged.push(...localHunk);
+		} else {
+			merged.push('<<<<<<< Local', ...localHunk, '=======', ...remoteHunk, '>>>>>>> Google Drive');
+			conflicts++;
+		}
+
+		i = next;
+		j = localEnd;
+		k = remoteEnd;
+	}
+
+	return { text: merged.join('\n'), conflicts };
+}
+
+interface DiffRow {
+	left: string | null; // null where the line only exists on the right
+	right: string | null; // null where the line only exists on the left
+	changed: boolean;
+}
+
+// Aligns two texts line by line for a side-by-side view
+function diffLines(left: string[], right: string[]): DiffRow[] {
+	const matches = matchLines(left, right);
+	const rows: DiffRow[] = [];
+	let i = 0, j = 0;
+
+	while (i < left.length || j < right.length) {
+		if (i < left.length && matches[i] === j) {
+			rows.push({ left: left[i], right: right[j], changed: false });
+			i++;
+			j++;
+			continue;
+		}
+
+		// Pair up the changed lines on both sides until the next common line
+		let nextLeft = i;
+		while (nextLeft < left.length && matches[nextLeft] < 0) {
+			nextLeft++;
+		}
+		const nextRight = nextLeft < left.length ? matches[nextLeft] : right.length;
+
+		for (let n = 0; n < Math.max(nextLeft - i, nextRight - j); n++) {
+			rows.push({
+				left: i + n < nextLeft ? left[i + n] : null,
+				right: j + n < nextRight ? right[j + n] : null,
+				changed: true,
+			});
+		}
+
+		i = nextLeft;
+		j = nextRight;
+	}
+
+	return rows;
+}
+
+interface IgnoreRule {
+	source: string; // the pattern as written
+	origin: string; // 'settings' or the ignore file it came from
+	negated: boolean;
+	directoryOnly: boolean;
+	regex: RegExp;
+}
+
+/**
+ * Parses gitignore-style patterns: `#` comments, `!` to re-include, `*`, `?`,
+ * `[...]` and `**` wildcards, a leading or inner `/` to anchor to the vault
+ * root and a trailing `/` to match folders only. Patterns that don't form a valid
+ * expression, such as `[z-a]`, are left out and described in `invalid`.
+ */
+function parseIgnoreRules(text: string, origin: string, invalid: string[] = []): IgnoreRule[] {
+	const rules: IgnoreRule[] = [];
+	const lines = text.split(/\r?\n/);
+
+	for (let lineNumber = 1; lineNumber <= lines.length; lineNumber++) {
+		const line = lines[lineNumber - 1].replace(/\s+$/, '');
+		if (!line || line.startsWith('#')) {
+			continue;
+		}
+
+		let pattern = line;
+		const negated = pattern.startsWith('!');
+		if (negated) {
+			pattern = pattern.substring(1);
+		} else if (pattern.startsWith('\\')) {
+			pattern = pattern.substring(1); // Escaped leading # or !
+		}
+
+		const directoryOnly = pattern.endsWith('/');
+		pattern = pattern.replace(/\/+$/, '');
+		const anchored = pattern.includes('/');
+		pattern = pattern.replace(/^\//, '');
+		if (!pattern) {
+			continue;
+		}
+
+		let regex = '';
+		for (let i = 0; i < pattern.length; i++) {
+			const char = pattern[i];
+			if (char === '*' && pattern[i + 1] === '*') {
+				if (pattern[i + 2] === '/') {
+					regex += '(?:.*/)?';
+					i += 2;
+				} else {
+					regex += '.*';
+					i += 1;
 				}
-				if (conflicts > 0) {
-					statusMessage += ` ${conflicts}⚠`;
+			} else if (char === '*') {
+				regex += '[^/]*';
+			} else if (char === '?') {
+				regex += '[^/]';
+			} else if (char === '[' && pattern.indexOf(']', i + 1) > i + 1) {
+				const end = pattern.indexOf(']', i + 1);
+				const set = pattern.substring(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\');
+				regex += `[${set}]`;
+				i = end;
+			} else {
+				regex += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+			}
+		}
+
+		try {
+			rules.push({
+				source: line,
+				origin,
+				negated,
+				directoryOnly,
+				regex: new RegExp((anchored ? '^' : '^(?:.*/)?') + regex + '$'),
+			});
+		} catch (error) {
+			invalid.push(`${origin} line ${lineNumber}: ${line}`);
+		}
+	}
+
+	return rules;
+}
+
+// A rule matches a file if it matches its path or any folder containing it
+function ignoreRuleMatches(rule: IgnoreRule, path: string): boolean {
+	const segments = path.split('/');
+	for (let i = 1; i <= segments.length; i++) {
+		const isFolder = i < segments.length;
+		if (rule.directoryOnly && !isFolder) {
+			continue;
+		}
+		if (rule.regex.test(segments.slice(0, i).join('/'))) {
+			return true;
+		}
+	}
+	return false;
+}
+
+// The last matching rule decides, so `!` rules can re-include what earlier rules excluded
+function isPathIgnored(path: string, rules: IgnoreRule[]): boolean {
+	let ignored = false;
+	for (const rule of rules) {
+		if (ignoreRuleMatches(rule, path)) {
+			ignored = !rule.negated;
+		}
+	}
+	return ignored;
+}
+
+function deriveEncryptionKeys(passphrase: string, salt: Buffer, params: { N: number; r: number; p: number }): Promise<EncryptionKeys> {
+	return new Promise((resolve, reject) => {
+		const options = { N: params.N, r: params.r, p: params.p, maxmem: 256 * params.N * params.r };
+		scrypt(passphrase.normalize('NFC'), salt, 128, options, (error, key) => {
+			if (error) {
+				reject(error);
+				return;
+			}
+			resolve({
+				content: key.subarray(0, 32),
+				contentIv: key.subarray(32, 64),
+				name: key.subarray(64, 96),
+				nameIv: key.subarray(96, 128),
+			});
+		});
+	});
+}
+
+/**
+ * Encrypts file content with AES-256-GCM. The IV is derived from the path and
+ * content instead of being random, so unchanged content encrypts to the same
+ * bytes: Drive's checksum stays stable and interrupted uploads can resume. An IV
+ * only repeats for identical input, which is safe with GCM.
+ */
+function encryptContent(keys: EncryptionKeys, path: string, content: Buffer): Buffer {
+	const iv = createHmac('sha256', keys.contentIv).update(path).update('\0').update(content).digest().subarray(0, ENCRYPTION_IV_LENGTH);
+	const cipher = createCipheriv('aes-256-gcm', keys.content, iv);
+	const ciphertext = Buffer.concat([cipher.update(content), cipher.final()]);
+	return Buffer.concat([Buffer.from(ENCRYPTED_MAGIC), iv, ciphertext, cipher.getAuthTag()]);
+}
+
+function decryptContent(keys: EncryptionKeys, data: Buffer): Buffer {
+	const headerLength = ENCRYPTED_MAGIC.length + ENCRYPTION_IV_LENGTH;
+	if (data.length < ENCRYPTION_OVERHEAD || data.toString('utf8', 0, ENCRYPTED_MAGIC.length) !== ENCRYPTED_MAGIC) {
+		throw new Error('File was not encrypted by this plugin');
+	}
+
+	const decipher = createDecipheriv('aes-256-gcm', keys.content, data.subarray(ENCRYPTED_MAGIC.length, headerLength));
+	decipher.setAuthTag(data.subarray(data.length - ENCRYPTION_TAG_LENGTH));
+	try {
+		return Buffer.concat([decipher.update(data.subarray(headerLength, data.length - ENCRYPTION_TAG_LENGTH)), decipher.final()]);
+	} catch (error) {
+		throw new Error('File could not be decrypted: the passphrase is wrong or the file is damaged');
+	}
+}
+
+// Deterministic, so a name always maps to the same Drive name and folders can be looked up by it
+function encryptName(keys: EncryptionKeys, name: string): string {
+	const plain = Buffer.from(name, 'utf8');
+	const iv = createHmac('sha256', keys.nameIv).update(plain).digest().subarray(0, NAME_IV_LENGTH);
+	const cipher = createCipheriv('aes-256-ctr', keys.name, iv);
+	const encrypted = Buffer.concat([iv, cipher.update(plain), cipher.final()]);
+	return encrypted.toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+// Returns null for names that weren't encrypted with these keys
+function decryptName(keys: EncryptionKeys, driveName: string): string | null {
+	if (!/^[A-Za-z0-9_-]+$/.test(driveName)) {
+		return null;
+	}
+	const data = Buffer.from(driveName.replace(/-/g, '+').replace(/_/g, '/'), 'base64');
+	if (data.length <= NAME_IV_LENGTH) {
+		return null;
+	}
+
+	const iv = data.subarray(0, NAME_IV_LENGTH);
+	const decipher = createDecipheriv('aes-256-ctr', keys.name, iv);
+	const plain = Buffer.concat([decipher.update(data.subarray(NAME_IV_LENGTH)), decipher.final()]);
+	// The IV is a MAC of the name, so it also authenticates it
+	const expectedIv = createHmac('sha256', keys.nameIv).update(plain).digest().subarray(0, NAME_IV_LENGTH);
+	return expectedIv.equals(iv) ? plain.toString('utf8') : null;
+}
+
+// Electron's safeStorage, or null where it can't encrypt: on mobile, or on Linux without a keyring
+function getSafeStorage(): SafeStorage | null {
+	try {
+		const safeStorage: SafeStorage | undefined = require('electron').remote?.safeStorage;
+		return safeStorage && safeStorage.isEncryptionAvailable() ? safeStorage : null;
+	} catch (error) {
+		return null;
+	}
+}
+
+// Starts an HTTP server on a free loopback port for the OAuth redirect
+function listenOnLoopback(): Promise<Server> {
+	return new Promise((resolve, reject) => {
+		const server = createServer();
+		server.once('error', reject);
+		server.listen(0, '127.0.0.1', () => resolve(server));
+	});
+}
+
+/**
+ * Takes the authorization code from a pasted redirect address, or accepts a bare
+ * code. Throws if Google reported an error or the state doesn't match.
+ */
+function parseAuthorizationInput(input: string, state: string): string {
+	const trimmed = input.trim();
+	if (!/[?&](code|error)=/.test(trimmed)) {
+		return trimmed;
+	}
+
+	const params = new URLSearchParams(trimmed.substring(trimmed.indexOf('?') + 1));
+	if (params.get('error')) {
+		throw new Error(`Google denied access: ${params.get('error')}`);
+	}
+	if (params.get('state') !== state) {
+		throw new Error('The authorization response doesn\'t belong to this sign-in attempt');
+	}
+	return params.get('code') || '';
+}
+
+function toArrayBuffer(buffer: Buffer): ArrayBuffer {
+	return buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength);
+}
+
+function formatBytes(bytes: number): string {
+	if (bytes < 1024) {
+		return `${bytes} B`;
+	}
+	const units = ['KB', 'MB', 'GB'];
+	let value = bytes / 1024, unit = 0;
+	while (value >= 1024 && unit < units.length - 1) {
+		value /= 1024;
+		unit++;
+	}
+	return `${value.toFixed(1)} ${units[unit]}`;
+}
+
+function formatSyncRunTitle(run: SyncRun): string {
+	const direction = run.direction === 'both' ? 'both ways' : run.direction === 'to-drive' ? 'to Google Drive' : 'from Google Drive';
+	const duration = run.finishedAt ? `, ${((run.finishedAt - run.startedAt) / 1000).toFixed(1)} s` : '';
+	return `${moment(run.startedAt).format('YYYY-MM-DD HH:mm:ss')} · ${run.trigger}, ${direction} · ${run.status}${duration}`;
+}
+
+function formatSyncHistoryMarkdown(runs: SyncRun[]): string {
+	const cell = (text: string) => text.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+	const lines = ['# Google Drive Sync History', ''];
+
+	for (const run of runs) {
+		lines.push(`## ${formatSyncRunTitle(run)}`, '');
+		if (run.error) {
+			lines.push(`Error: ${run.error}`, '');
+		}
+		if (run.entries.length === 0) {
+			lines.push('No file actions.', '');
+			continue;
+		}
+		lines.push('| Time | Path | Action | Outcome | Details |', '| --- | --- | --- | --- | --- |');
+		for (const entry of run.entries) {
+			lines.push(`| ${moment(entry.time).format('HH:mm:ss')} | ${cell(entry.path)} | ${entry.action} | ${entry.outcome} | ${cell(entry.detail)} |`);
+		}
+		lines.push('');
+	}
+	return lines.join('\n');
+}
+
+// Drive leaves out parents the caller can't see, and size and md5Checksum for folders and Google-native files
+function toRemoteItem(data: any): RemoteItem {
+	return {
+		id: data.id,
+		name: data.name,
+		mimeType: data.mimeType,
+		modifiedTime: data.modifiedTime,
+		size: data.size,
+		md5Checksum: data.md5Checksum,
+		parents: data.parents || [],
+	};
+}
+
+type DriveFetch = (url: string, init?: DriveRequestInit) => Promise<Response>;
+
+/**
+ * RemoteBackend over the Drive v3 API. Requests go through the plugin's
+ * driveFetch, which authorizes them and retries transient failures.
+ */
+class GoogleDriveBackend implements RemoteBackend {
+	private driveFetch: DriveFetch;
+	private uploadSessions: UploadSessionStore;
+
+	constructor(driveFetch: DriveFetch, uploadSessions: UploadSessionStore) {
+		this.driveFetch = driveFetch;
+		this.uploadSessions = uploadSessions;
+	}
+
+	async list(folderId: string, name?: string): Promise<RemoteItem[]> {
+		let query = `'${folderId}' in parents and trashed=false`;
+		if (name !== undefined) {
+			query = `name='${name.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}' and ${query}`;
+		}
+		return (await this.listItems(query)).map(toRemoteItem);
+	}
+
+	async stat(id: string): Promise<RemoteItem | null> {
+		const response = await this.driveFetch(`https://www.googleapis.com/drive/v3/files/${id}?fields=${encodeURIComponent(REMOTE_ITEM_FIELDS + ',trashed')}`);
+
+		if (response.status === 404) {
+			return null;
+		}
+		if (!response.ok) {
+			throw new DriveApiError(`Failed to get Drive file ${id}: ${response.status} ${response.statusText}`, response.status);
+		}
+
+		const data = await response.json();
+		return data.trashed ? null : toRemoteItem(data);
+	}
+
+	async read(id: string): Promise<Buffer> {
+		const response = await this.driveFetch(`https://www.googleapis.com/drive/v3/files/${id}?alt=media`);
+
+		if (!response.ok) {
+			throw new DriveApiError(`Download failed: ${response.status} ${response.statusText}`, response.status);
+		}
+
+		return Buffer.from(await response.arrayBuffer());
+	}
+
+	async write(target: RemoteWrite, content: Buffer): Promise<RemoteItem> {
+		if (content.length > RESUMABLE_UPLOAD_THRESHOLD) {
+			return this.writeResumable(target, content);
+		}
+
+		let response: Response;
+		if (target.id) {
+			// Update existing file
+			response = await this.driveFetch(`https://www.googleapis.com/upload/drive/v3/files/${target.id}?uploadType=media&fields=${REMOTE_ITEM_FIELDS}`, {
+				method: 'PATCH',
+				headers: {
+					'Content-Type': target.mimeType,
+				},
+				body: content,
+			});
+		} else {
+			// Create new file with multipart
+			const boundary = 'boundary_' + Math.random().toString(36).substr(2);
+			const metadata = {
+				name: target.name,
+				parents: [target.parentId],
+			};
+
+			const metadataPart = '--' + boundary + '\r\n' +
+				'Content-Type: application/json; charset=UTF-8\r\n\r\n' +
+				JSON.stringify(metadata) + '\r\n';
+			const contentPartHeader = '--' + boundary + '\r\n' +
+				'Content-Type: ' + target.mimeType + '\r\n\r\n';
+			const endPart = '\r\n--' + boundary + '--';
+
+			const body = Buffer.concat([Buffer.from(metadataPart, 'utf8'), Buffer.from(contentPartHeader, 'utf8'), content, Buffer.from(endPart, 'utf8')]);
+
+			response = await this.driveFetch(`https://www.googleapis.com/upload/drive/v3/files?uploadType=multipart&fields=${REMOTE_ITEM_FIELDS}`, {
+				method: 'POST',
+				headers: {
+					'Content-Type': `multipart/related; boundary=${boundary}`,
+				},
+				body,
+			});
+		}
+
+		if (!response.ok) {
+			throw new DriveApiError(`Upload failed: ${response.status} ${response.statusText}`, response.status);
+		}
+
+		return toRemoteItem(await response.json());
+	}
+
+	async mkdir(name: string, parentId: string): Promise<RemoteItem> {
+		const response = await this.driveFetch(`https://www.googleapis.com/drive/v3/files?fields=${REMOTE_ITEM_FIELDS}`, {
+			method: 'POST',
+			headers: {
+				'Content-Type': 'application/json; charset=UTF-8',
+			},
+			body: JSON.stringify({ name, mimeType: FOLDER_MIME_TYPE, parents: [parentId] }),
+		});
+
+		if (!response.ok) {
+			throw new DriveApiError(`Failed to create folder: ${response.status} ${response.statusText}`, response.status);
+		}
+
+		return toRemoteItem(await response.json());
+	}
+
+	async move(id: string, name: string, parents?: { from: string; to: string }): Promise<RemoteItem> {
+		let updateUrl = `https://www.googleapis.com/drive/v3/files/${id}?fields=${encodeURIComponent(REMOTE_ITEM_FIELDS)}`;
+		if (parents && parents.from !== parents.to) {
+			updateUrl += `&addParents=${parents.to}&removeParents=${parents.from}`;
+		}
+
+		const response = await this.driveFetch(updateUrl, {
+			method: 'PATCH',
+			headers: {
+				'Content-Type': 'application/json; charset=UTF-8',
+			},
+			body: JSON.stringify({ name }),
+		});
+
+		if (!response.ok) {
+			throw new DriveApiError(`Move failed: ${response.status} ${response.statusText}`, response.status);
+		}
+
+		return toRemoteItem(await response.json());
+	}
+
+	// Moves the file to the Drive trash, where it can be restored for 30 days
+	async delete(id: string): Promise<void> {
+		const response = await this.driveFetch(`https://www.googleapis.com/drive/v3/files/${id}`, {
+			method: 'PATCH',
+			headers: {
+				'Content-Type': 'application/json; charset=UTF-8',
+			},
+			body: JSON.stringify({ trashed: true }),
+		});
+
+		if (!response.ok) {
+			throw new DriveApiError(`Delete failed: ${response.status} ${response.statusText}`, response.status);
+		}
+	}
+
+	async changes(cursor: string | null): Promise<RemoteChanges | null> {
+		if (cursor === null) {
+			const response = await this.driveFetch('https://www.googleapis.com/drive/v3/changes/startPageToken');
+			if (!response.ok) {
+				throw new DriveApiError(`Failed to get changes token: ${response.status} ${response.statusText}`, response.status);
+			}
+			return { changes: [], cursor: (await response.json()).startPageToken };
+		}
+
+		const changes: RemoteChange[] = [];
+		let pageToken = cursor;
+		let newStartPageToken = '';
+
+		while (!newStartPageToken) {
+			const changesUrl = `https://www.googleapis.com/drive/v3/changes?pageToken=${encodeURIComponent(pageToken)}&pageSize=1000&includeRemoved=true&spaces=drive&fields=${encodeURIComponent(CHANGES_FIELDS)}`;
+			const response = await this.driveFetch(changesUrl);
+
+			if (!response.ok) {
+				if (response.status === 400 || response.status === 404 || response.status === 410) {
+					return null;
 				}
+				throw new DriveApiError(`Failed to list Drive changes: ${response.status} ${response.statusText}`, response.status);
+			}
+
+			const data = await response.json();
+			for (const change of data.changes || []) {
+				const removed = !!change.removed || !change.file || !!change.file.trashed;
+				changes.push({ id: change.fileId, removed, item: removed ? null : toRemoteItem(change.file) });
+			}
+			newStartPageToken = data.newStartPageToken || '';
+			pageToken = data.nextPageToken;
+
+			if (!newStartPageToken && !pageToken) {
+				return null;
+			}
+		}
+
+		return { changes, cursor: newStartPageToken };
+	}
+
+	// Runs a files.list query to completion, following nextPageToken
+	private async listItems(query: string): Promise<any[]> {
+		const items: any[] = [];
+		let pageToken = '';
+
+		do {
+			let listUrl = `https://www.googleapis.com/drive/v3/files?q=${encodeURIComponent(query)}&pageSize=1000&fields=${encodeURIComponent(`nextPageToken,files(${REMOTE_ITEM_FIELDS})`)}`;
+			if (pageToken) {
+				listUrl += `&pageToken=${encodeURIComponent(pageToken)}`;
+			}
+
+			const response = await this.driveFetch(listUrl);
+
+			if (!response.ok) {
+				throw new DriveApiError(`Failed to list Drive items (${query}): ${response.status} ${response.statusText}`, response.status);
 			}
 
-			this.updateStatusBar(statusMessage);
+			const data = await response.json();
+			items.push(...(data.files || []));
+			pageToken = data.nextPageToken || '';
+		} while (pageToken);
+
+		return items;
+	}
+
+	/**
+	 * Uploads content in chunks through a Drive resumable session. The session is
+	 * kept in the upload session store, so an interrupted upload continues from the
+	 * last byte Drive acknowledged on the next sync, even after a restart.
+	 */
+	private async writeResumable(target: RemoteWrite, content: Buffer): Promise<RemoteItem> {
+		const hash = createHash('md5').update(content).digest('hex');
+		const size = content.length;
+		const saved = this.uploadSessions.get(target.path);
+		let uri = '';
+		let progress: UploadProgress | null = null;
+
+		if (saved && saved.hash === hash && saved.size === size && saved.fileId === target.id && Date.now() - saved.startedAt < UPLOAD_SESSION_MAX_AGE) {
+			uri = saved.uri;
+			progress = await this.putToUploadSession(uri, `bytes */${size}`);
+			if (progress && !progress.done) {
+				console.log(`Resuming upload of ${target.path} at ${formatBytes(progress.offset)} of ${formatBytes(size)}`);
+			}
+		}
+
+		if (!progress) {
+			uri = await this.startUploadSession(target, size);
+			await this.uploadSessions.set(target.path, { uri, fileId: target.id, hash, size, startedAt: Date.now() });
+			progress = { done: false, offset: 0 };
+		}
+
+		while (!progress.done) {
+			const start: number = progress.offset;
+			const end = Math.min(start + RESUMABLE_CHUNK_SIZE, size);
+			const next: UploadProgress | null = await this.putToUploadSession(uri, `bytes ${start}-${end - 1}/${size}`, content.subarray(start, end));
+			if (!next) {
+				await this.uploadSessions.remove(target.path);
+				throw new Error(`Upload session for ${target.path} expired, it will start over on the next sync`);
+			}
+			progress = next;
+			if (!progress.done) {
+				console.log(`Uploaded ${formatBytes(progress.offset)} of ${formatBytes(size)} of ${target.path}`);
+			}
+		}
+
+		await this.uploadSessions.remove(target.path);
+		return toRemoteItem(progress.result);
+	}
+
+	private async startUploadSession(target: RemoteWrite, size: number): Promise<string> {
+		const metadata = target.id ? {} : { name: target.name, parents: [target.parentId] };
+		const uploadUrl = target.id
+			? `https://www.googleapis.com/upload/drive/v3/files/${target.id}?uploadType=resumable&fields=${REMOTE_ITEM_FIELDS}`
+			: `https://www.googleapis.com/upload/drive/v3/files?uploadType=resumable&fields=${REMOTE_ITEM_FIELDS}`;
+		const response = await this.driveFetch(uploadUrl, {
+			method: target.id ? 'PATCH' : 'POST',
+			headers: {
+				'Content-Type': 'application/json; charset=UTF-8',
+				'X-Upload-Content-Type': target.mimeType,
+				'X-Upload-Content-Length': String(size),
+			},
+			body: JSON.stringify(metadata),
+		});
+
+		if (!response.ok) {
+			throw new DriveApiError(`Failed to start upload: ${response.status} ${response.statusText}`, response.status);
+		}
+
+		const uri = response.headers.get('Location');
+		if (!uri) {
+			throw new Error('Google Drive did not return an upload session');
+		}
+		return uri;
+	}
+
+	/**
+	 * Sends a chunk to a resumable session, or only asks how much Drive has received
+	 * when called without one. Returns null if the session no longer exists.
+	 */
+	private async putToUploadSession(uri: string, contentRange: string, chunk?: Buffer): Promise<UploadProgress | null> {
+		const response = await this.driveFetch(uri, {
+			method: 'PUT',
+			headers: {
+				'Content-Range': contentRange,
+			},
+			body: chunk,
+		});
+
+		if (response.status === 200 || response.status === 201) {
+			return { done: true, result: await response.json() };
+		}
+		if (response.status === 308) {
+			// "bytes=0-<last byte received>", absent when nothing has arrived yet
+			const range = response.headers.get('Range');
+			return { done: false, offset: range ? parseInt(range.substring(range.indexOf('-') + 1)) + 1 : 0 };
+		}
+		if (response.status === 404 || response.status === 410) {
+			return null;
+		}
+		throw new DriveApiError(`Upload failed: ${response.status} ${response.statusText}`, response.status);
+	}
+}
+
+const DEFAULT_SETTINGS: GoogleDriveSyncSettings = {
+	driveScope: 'drive.file',
+	folderId: '',
+	lastSyncTime: 0,
+	syncInterval: 15, // 15 minutes
+	autoSync: true,
+	conflictResolution: 'overwrite',
+	deviceName: '',
+	syncState: {},
+	remoteIndex: null,
+	pendingConflicts: {},
+	syncFailures: {},
+	folderMoves: {},
+	deletionConfirmCount: 20,
+	deletionConfirmPercent: 10,
+	excludePatterns: '',
+	transferConcurrency: 3,
+	configSync: {
+		core: false,
+		communityPlugins: false,
+		plugins: false,
+		themes: false,
+		snippets: false,
+		hotkeys: false,
+	},
+	uploadSessions: {},
+	encryption: {
+		enabled: false,
+	},
+	snapshotRetentionDays: 30,
+	snapshotMaxSize: 500,
+	googleExportFormats: {
+		document: 'md',
+		spreadsheet: 'csv',
+		presentation: 'pdf',
+	},
+	googleExports: {},
+	publishedDocs: {}
+}
+
+export default class GoogleDriveSyncPlugin extends Plugin {
+	settings: GoogleDriveSyncSettings;
+	credentials: Credentials = { clientId: '', clientSecret: '', refreshToken: '', encryptionPassphrase: '' };
+
+	// Every remote read and write of the sync engine goes through this
+	private remote: RemoteBackend;
+	statusBarItem: HTMLElement;
+	syncIntervalId: NodeJS.Timeout | null = null;
+	syncAnimationId: NodeJS.Timeout | null = null;
+
+	// Obsidian passes only app and manifest; another backend, such as a MemoryBackend, can be given to run the engine offline
+	constructor(app: App, manifest: PluginManifest, remote?: RemoteBackend) {
+		super(app, manifest);
+		this.remote = remote || new GoogleDriveBackend(
+			(url, init) => this.driveFetch(url, init),
+			{
+				get: path => this.settings.uploadSessions[path],
+				set: async (path, session) => {
+					this.settings.uploadSessions[path] = session;
+					await this.saveSettings();
+				},
+				remove: path => this.removeUploadSession(path),
+			});
+	}
+
+	async onload() {
+		console.log('Loading Google Drive Sync plugin');
+
+		await this.loadSettings();
+
+		// Add status bar item
+		this.statusBarItem = this.addStatusBarItem();
+		this.updateStatusBar('Ready');
+
+		// Setup automatic sync
+		this.setupAutoSync();
+		this.registerEvent(this.app.vault.on('modify', () => this.scheduleAutoSync()));
+		this.registerEvent(this.app.vault.on('delete', () => this.scheduleAutoSync()));
+		this.registerEvent(this.app.vault.on('create', () => this.scheduleAutoSync()));
+
+		// Add command to authenticate with Google Drive
+		this.addCommand({
+			id: 'authenticate-google-drive',
+			name: 'Authenticate with Google Drive',
+			callback: () => {
+				this.authenticate();
+			}
+		});
+
+		// Add command to sign out and revoke the plugin's access
+		this.addCommand({
+			id: 'sign-out-google-drive',
+			name: 'Sign Out and Revoke Google Drive Access',
+			callback: () => {
+				this.signOut();
+			}
+		});
+
+		// Add command to sync vault to Google Drive
+		this.addCommand({
+			id: 'sync-to-google-drive',
+			name: 'Sync Vault to Google Drive',
+			callback: () => {
+				this.performSync(true, false);
+			}
+		});
+
+		// Add command to sync from Google Drive
+		this.addCommand({
+			id: 'sync-from-google-drive',
+			name: 'Sync Vault from Google Drive',
+			callback: () => {
+				this.performSync(false, true);
+			}
+		});
+
+		// Add command to sync both ways
+		this.addCommand({
+			id: 'sync-bidirectional',
+			name: 'Sync Both Ways',
+			callback: () => {
+				console.log('Starting bidirectional sync (toDrive=true, fromDrive=true)');
+				this.performSync(true, true);
+			}
+		});
+
+		// Add command to rebuild the remote listing from scratch
+		this.addCommand({
+			id: 'rescan-google-drive',
+			name: 'Rescan Google Drive Folder and Sync',
+			callback: () => {
+				this.settings.remoteIndex = null;
+				this.performSync(true, true);
+			}
+		});
+
+		this.addCommand({
+			id: 'publish-note-as-google-doc',
+			name: 'Publish Note as Google Doc',
+			checkCallback: (checking: boolean) => {
+				const file = this.app.workspace.getActiveFile();
+				if (!file || file.extension !== 'md') {
+					return false;
+				}
+				if (!checking) {
+					this.publishNote(file);
+				}
+				return true;
+			}
+		});
+
+		this.addCommand({
+			id: 'preview-sync',
+			name: 'Preview Sync',
+			callback: () => {
+				this.previewSync();
+			}
+		});
+
+		// Add sidebar view and command for conflicts waiting to be resolved
+		this.registerView(CONFLICT_VIEW_TYPE, (leaf) => new ConflictQueueView(leaf, this));
+
+		this.addCommand({
+			id: 'show-sync-conflicts',
+			name: 'Show Pending Sync Conflicts',
+			callback: () => {
+				this.activateView(CONFLICT_VIEW_TYPE);
+			}
+		});
+
+		// Add sidebar view and command for the history of past syncs
+		this.registerView(SYNC_HISTORY_VIEW_TYPE, (leaf) => new SyncHistoryView(leaf, this));
+
+		this.addCommand({
+			id: 'show-sync-history',
+			name: 'Show Sync History',
+			callback: () => {
+				this.activateView(SYNC_HISTORY_VIEW_TYPE);
+			}
+		});
+
+		// Add sidebar view and command for files that failed to sync
+		this.registerView(SYNC_ERRORS_VIEW_TYPE, (leaf) => new SyncErrorsView(leaf, this));
+
+		this.addCommand({
+			id: 'show-sync-errors',
+			name: 'Show Sync Errors',
+			callback: () => {
+				this.activateView(SYNC_ERRORS_VIEW_TYPE);
+			}
+		});
+
+		this.addCommand({
+			id: 'restore-from-snapshot',
+			name: 'Restore from Sync Snapshot',
+			callback: () => {
+				this.showSnapshots();
+			}
+		});
+
+		// Add command and file menu item for the Drive revisions of a file
+		this.addCommand({
+			id: 'show-drive-history',
+			name: 'Show Google Drive History',
+			checkCallback: (checking: boolean) => {
+				const file = this.app.workspace.getActiveFile();
+				if (!file) {
+					return false;
+				}
+				if (!checking) {
+					this.showDriveHistory(file);
+				}
+				return true;
+			}
+		});
+
+		this.registerEvent(this.app.workspace.on('file-menu', (menu, file) => {
+			if (file instanceof TFile) {
+				menu.addItem(item => item
+					.setTitle('Show Google Drive history')
+					.setIcon('history')
+					.onClick(() => this.showDriveHistory(file)));
+			}
+		}));
+
+		// Keep sync state attached to files renamed or moved in the vault
+		this.registerEvent(this.app.vault.on('rename', (file, oldPath) => {
+			this.handleVaultRename(file, oldPath);
+			this.scheduleAutoSync();
+		}));
+
+		// Add settings tab
+		this.addSettingTab(new GoogleDriveSyncSettingTab(this.app, this));
+	}
+
+	onunload() {
+		console.log('Unloading Google Drive Sync plugin');
+		if (this.syncIntervalId) {
+			clearInterval(this.syncIntervalId);
+		}
+		if (this.syncTimeoutId) {
+			clearTimeout(this.syncTimeoutId);
+		}
+		if (this.syncAnimationId) {
+			clearInterval(this.syncAnimationId);
+		}
+	}
+
+	async loadSettings() {
+		const loaded = await this.loadData();
+		const data = Object.assign({}, loaded);
+		const legacyCredentials: Partial<Credentials> = {};
+		for (const key of CREDENTIAL_KEYS) {
+			if (key in data) {
+				legacyCredentials[key] = data[key];
+				delete data[key];
+			}
+		}
+		if (data.encryption && 'passphrase' in data.encryption) {
+			legacyCredentials.encryptionPassphrase = data.encryption.passphrase;
+			data.encryption = Object.assign({}, data.encryption);
+			delete data.encryption.passphrase;
+		}
+
+		this.settings = Object.assign({}, DEFAULT_SETTINGS, data);
+		if (loaded && !loaded.driveScope) {
+			// Signed in before the scope could be chosen; the synced folder may not be reachable with less
+			this.settings.driveScope = 'drive';
+		}
+		this.settings.syncState = Object.assign({}, this.settings.syncState);
+		this.settings.pendingConflicts = Object.assign({}, this.settings.pendingConflicts);
+		this.settings.syncFailures = Object.assign({}, this.settings.syncFailures);
+		this.settings.folderMoves = Object.assign({}, this.settings.folderMoves);
+		this.settings.configSync = Object.assign({}, DEFAULT_SETTINGS.configSync, this.settings.configSync);
+		this.settings.uploadSessions = Object.assign({}, this.settings.uploadSessions);
+		this.settings.encryption = Object.assign({}, DEFAULT_SETTINGS.encryption, this.settings.encryption);
+		this.settings.googleExportFormats = Object.assign({}, DEFAULT_SETTINGS.googleExportFormats, this.settings.googleExportFormats);
+		this.settings.googleExports = Object.assign({}, this.settings.googleExports);
+		this.settings.publishedDocs = Object.assign({}, this.settings.publishedDocs);
+		for (const path of Object.keys(this.settings.uploadSessions)) {
+			if (Date.now() - this.settings.uploadSessions[path].startedAt >= UPLOAD_SESSION_MAX_AGE) {
+				delete this.settings.uploadSessions[path];
+			}
+		}
+
+		this.loadCredentials(legacyCredentials);
+		if (Object.keys(legacyCredentials).length > 0) {
+			this.saveCredentials();
+			await this.saveSettings();
+		}
+		this.setupAutoSync();
+	}
+
+	private saveQueue: Promise<void> = Promise.resolve();
+
+	// Saves one at a time, since parallel transfers update the sync records together
+	saveSettings(): Promise<void> {
+		const save = this.saveQueue.then(() => this.saveData(this.settings));
+		this.saveQueue = save.catch(() => undefined);
+		return save;
+	}
+
+	// Credentials saved by saveCredentials take precedence over ones found in an old data.json
+	private loadCredentials(legacyCredentials: Partial<Credentials>) {
+		let saved: Partial<Credentials> = {};
+		const stored: StoredCredentials | null = this.app.loadLocalStorage(CREDENTIALS_STORAGE_KEY);
+		if (stored) {
+			try {
+				if (stored.encrypted) {
+					const safeStorage = getSafeStorage();
+					if (!safeStorage) {
+						throw new Error('The system keychain is not available');
+					}
+					saved = JSON.parse(safeStorage.decryptString(Buffer.from(stored.data, 'base64')));
+				} else {
+					saved = JSON.parse(stored.data);
+				}
+			} catch (error) {
+				console.error('Failed to read saved Google credentials:', error);
+				new Notice('Saved Google credentials could not be read. Enter them again and sign in.');
+			}
+		}
+		this.credentials = Object.assign({}, this.credentials, legacyCredentials, saved);
+	}
+
+	/**
+	 * Saves the client ID, secret, refresh token and encryption passphrase in Obsidian's
+	 * local storage for this vault rather than in data.json, which is often synced or
+	 * committed along with the vault. They are encrypted with the system keychain where
+	 * Electron supports it.
+	 */
+	public saveCredentials() {
+		const json = JSON.stringify(this.credentials);
+		const safeStorage = getSafeStorage();
+		const stored: StoredCredentials = safeStorage
+			? { encrypted: true, data: safeStorage.encryptString(json).toString('base64') }
+			: { encrypted: false, data: json };
+		this.app.saveLocalStorage(CREDENTIALS_STORAGE_KEY, stored);
+	}
+
+	public async setFolderId(folderId: string) {
+		if (folderId !== this.settings.folderId) {
+			this.resetSyncState();
+		}
+		this.settings.folderId = folderId;
+		await this.saveSettings();
+		this.setupAutoSync(); // Re-setup auto sync with new folder
+	}
+
+	// Sync state refers to files as they were in the synced folder; keeping it after
+	// switching folders would read every file missing from the new one as deleted there
+	public resetSyncState() {
+		this.settings.syncState = {};
+		this.settings.lastSyncTime = 0;
+		this.settings.remoteIndex = null;
+		this.settings.pendingConflicts = {};
+		this.settings.syncFailures = {};
+		this.settings.uploadSessions = {};
+		this.settings.folderMoves = {};
+	}
+
+	private updateStatusBar(text: string) {
+		let icon = '';
+		switch (text) {
+			case 'Ready':
+				icon = '✓';
+				break;
+			case 'Sync failed':
+				icon = '✗';
+				break;
+			default:
+				if (text.startsWith('Synced')) {
+					icon = '✓';
+				}
+				break;
+		}
+		this.statusBarItem.setText(`${icon} ${text}`);
+	}
+
+	private startSyncAnimation() {
+		if (this.syncAnimationId) {
+			clearInterval(this.syncAnimationId);
+		}
+
+		const frames = ['⠋', '⠙', '⠹', '⠸', '⠼', '⠴', '⠦', '⠧', '⠇', '⠏'];
+		let frameIndex = 0;
+
+		this.syncAnimationId = setInterval(() => {
+			this.statusBarItem.setText(`${frames[frameIndex]} Syncing...`);
+			frameIndex = (frameIndex + 1) % frames.length;
+		}, 100);
+	}
+
+	private stopSyncAnimation() {
+		if (this.syncAnimationId) {
+			clearInterval(this.syncAnimationId);
+			this.syncAnimationId = null;
+		}
+	}
+
+	public setupAutoSync() {
+		if (this.syncIntervalId) {
+			clearInterval(this.syncIntervalId);
+		}
+		if (this.syncTimeoutId) {
+			clearTimeout(this.syncTimeoutId);
+			this.syncTimeoutId = null;
+		}
+
+		if (this.settings.autoSync && this.credentials.refreshToken && this.settings.folderId) {
+			this.syncIntervalId = setInterval(() => {
+				this.performSync(true, true, { trigger: 'interval' });
+			}, this.settings.syncInterval * 60 * 1000); // Convert minutes to milliseconds
+		}
+	}
+
+	// Called on vault file events, which are registered once in onload rather than on every setupAutoSync
+	private scheduleAutoSync() {
+		if (this.settings.autoSync && this.credentials.refreshToken && this.settings.folderId) {
+			// Debounce sync calls
+			if (this.syncTimeoutId) {
+				clearTimeout(this.syncTimeoutId);
+			}
+			this.syncTimeoutId = setTimeout(() => this.performSync(true, true, { trigger: 'file-event' }), 5000);
+		}
+	}
+
+	private syncTimeoutId: NodeJS.Timeout | null = null;
+	private syncInProgress = false;
+
+	/**
+	 * Syncs the vault with Google Drive. With onlyPaths, everything else is left
+	 * out as if excluded, which is how failed files are retried on their own. With
+	 * a plan approved in the sync preview, only the approved moves and actions run,
+	 * and only if a file would still get the action it was approved for.
+	 */
+	private async performSync(toDrive: boolean = true, fromDrive: boolean = true, options: SyncOptions = {}) {
+		if (!this.credentials.refreshToken || !this.settings.folderId) {
+			new Notice('Please authenticate and set Folder ID in settings');
+			return;
+		}
+
+		if (this.syncInProgress) {
+			console.log('Sync already in progress, skipping');
+			return;
+		}
+		this.syncInProgress = true;
+
+		const run: SyncRun = {
+			startedAt: Date.now(),
+			finishedAt: 0,
+			trigger: options.trigger || 'command',
+			direction: toDrive && fromDrive ? 'both' : toDrive ? 'to-drive' : 'from-drive',
+			status: 'running',
+			entries: [],
+		};
+		this.currentRun = run;
+
+		try {
+			this.startSyncAnimation();
+			console.log('Starting Google Drive sync');
+
+			// Moves failing here are recorded like any other failed file
+			const prepared = await this.prepareSync(toDrive, fromDrive, options, false);
+			if (!prepared) {
+				this.stopSyncAnimation();
+				this.updateStatusBar('Sync failed');
+				run.status = 'failed';
+				run.error = 'Google Drive folder could not be accessed';
+				return;
+			}
+			const { plan } = prepared;
+			let uploaded = 0, downloaded = 0, conflicts = 0, deleted = 0, deletedLocal = 0, queued = 0;
+			const moved = prepared.moves.length;
+
+			for (const move of prepared.moves) {
+				this.logSyncAction(move.to, 'move', 'done', `moved from ${move.from} ${move.target === 'drive' ? 'on Google Drive' : 'in vault'}`);
+			}
+
+			// An approved plan from the preview runs only what the user saw and kept ticked. The
+			// preview can't plan what follows a move, so files just moved run whatever they still need
+			if (options.approved) {
+				const approvedActions = options.approved.actions;
+				const isMoved = (path: string) => prepared.moves.some(move => path === move.to || path.startsWith(move.to + '/'));
+				for (const item of plan) {
+					const approvedAction = approvedActions[item.path];
+					if (approvedAction !== item.decision.action && !(!approvedAction && isMoved(item.path))) {
+						item.decision = {
+							action: 'skip',
+							reason: approvedAction ? `changed since the sync preview (now ${item.decision.action})` : 'not approved in the sync preview',
+						};
+					}
+				}
+			}
+
+			// Unusually many deletions usually mean one side is incomplete, so confirm them first
+			const deletions = plan.filter(item => (toDrive && item.decision.action === 'delete-remote') || (fromDrive && item.decision.action === 'delete-local'));
+			if (!options.approved && this.exceedsDeletionThreshold(deletions.length)) {
+				this.stopSyncAnimation();
+				this.updateStatusBar('Waiting for deletion confirmation');
+				// Restoring takes the direction opposite to the deletion, so it is only offered when both run
+				const choice = await this.confirmDeletions(deletions, toDrive && fromDrive);
+				this.startSyncAnimation();
+
+				for (const item of deletions) {
+					if (choice === 'skip') {
+						item.decision = { action: 'skip', reason: 'mass deletion not confirmed' };
+					} else if (choice === 'restore') {
+						item.decision = item.decision.action === 'delete-remote'
+							? { action: 'download', reason: 'restored after mass deletion was declined' }
+							: { action: 'upload', reason: 'restored after mass deletion was declined' };
+					}
+				}
+			}
+
+			// Transfers run a few at a time. Drive requests retry on their own; a file that
+			// still fails is recorded and retried next sync without holding up the others
+			await mapWithConcurrency(plan, this.settings.transferConcurrency, async ({ path, vaultFile, driveFile, decision }) => {
+				let outcome: SyncOutcome = 'done';
+				let detail = decision.reason;
+				try {
+					switch (decision.action) {
+						case 'upload':
+							if (!toDrive || !vaultFile) break;
+							console.log(`Uploading ${path}: ${decision.reason}`);
+							await this.pushFile(vaultFile, driveFile?.id);
+							uploaded++;
+							break;
+						case 'download':
+							if (!fromDrive || !driveFile) break;
+							console.log(`Downloading ${path}: ${decision.reason}`);
+							await this.pullFile(driveFile);
+							downloaded++;
+							break;
+						case 'delete-remote':
+							if (!toDrive || !driveFile) break;
+							console.log(`Deleting ${path} from Google Drive: ${decision.reason}`);
+							await this.remote.delete(driveFile.id);
+							await this.removeSyncRecord(path);
+							deleted++;
+							break;
+						case 'delete-local':
+							if (!fromDrive || !vaultFile) break;
+							console.log(`Deleting ${path} from vault: ${decision.reason}`);
+							await this.trashLocalFile(vaultFile);
+							await this.removeSyncRecord(path);
+							deletedLocal++;
+							break;
+						case 'conflict':
+							if (!toDrive || !vaultFile || !driveFile) break;
+							// Check if content is actually identical (e.g., Welcome.md created on different devices)
+							if (await this.filesHaveIdenticalContent(vaultFile, driveFile, decision.localHash)) {
+								console.log(`Skipping conflict for ${path} - content is identical`);
+								await this.markInSync(vaultFile, driveFile, decision.localHash);
+								detail = `${decision.reason}, content is identical`;
+								break;
+							}
+							console.log(`Conflict on ${path}: ${decision.reason}`);
+							const handling = await this.handleConflict(vaultFile, driveFile, decision.localHash);
+							if (handling.outcome === 'queued') {
+								queued++;
+							} else {
+								conflicts++;
+							}
+							outcome = handling.outcome;
+							detail = `${decision.reason}, ${handling.detail}`;
+							break;
+						case 'in-sync':
+							// Content matches on both sides, only the recorded metadata is stale
+							if (vaultFile && driveFile) {
+								await this.markInSync(vaultFile, driveFile, decision.localHash);
+							}
+							break;
+						case 'forget':
+							await this.removeSyncRecord(path);
+							break;
+						case 'skip':
+							break;
+					}
+				} catch (error) {
+					console.error(`Failed to ${decision.action} ${path}:`, error);
+					await this.recordSyncFailure(path, decision.action, error);
+					return;
+				}
+				// Actions for the other direction were not attempted, so a failure stays recorded
+				const attempted = (decision.action === 'upload' || decision.action === 'delete-remote' || decision.action === 'conflict') ? toDrive
+					: (decision.action === 'download' || decision.action === 'delete-local') ? fromDrive : true;
+				if (attempted) {
+					await this.clearSyncFailure(path);
+					if (decision.action !== 'skip' && decision.action !== 'in-sync') {
+						this.logSyncAction(path, decision.action, outcome, detail);
+					}
+				}
+			});
+
+			// Not part of an approved preview plan, so left for the next sync
+			if (fromDrive && !options.approved) {
+				downloaded += await this.exportGoogleFiles(prepared.exports, prepared.staleExports);
+			}
+			if (toDrive && !options.approved && !options.onlyPaths) {
+				await this.updatePublishedDocs();
+			}
+
+			const failed = Object.keys(this.settings.syncFailures).filter(path => this.settings.syncFailures[path].failedAt >= run.startedAt).length;
+			run.status = 'completed';
+
+			this.settings.lastSyncTime = Date.now();
+			await this.saveSettings();
+
+			// Stop animation and show results in status bar
+			this.stopSyncAnimation();
+
+			// Create appropriate status message based on what happened
+			let statusMessage: string;
+			if (uploaded === 0 && downloaded === 0 && conflicts === 0 && deleted === 0 && deletedLocal === 0 && queued === 0 && moved === 0 && failed === 0) {
+				statusMessage = "Synced - No changes";
+			} else {
+				statusMessage = `Synced - ${uploaded}↑ ${downloaded}↓`;
+				if (moved > 0) {
+					statusMessage += ` ${moved}→`;
+				}
+				if (deleted + deletedLocal > 0) {
+					statusMessage += ` ${deleted + deletedLocal}🗑`;
+				}
+				if (conflicts + queued > 0) {
+					statusMessage += ` ${conflicts + queued}⚠`;
+				}
+				if (failed > 0) {
+					statusMessage += ` ${failed}✗`;
+				}
+			}
+
+			this.updateStatusBar(statusMessage);
+
+			// Log to console for debugging
+			let logMessage: string;
+			if (uploaded === 0 && downloaded === 0 && conflicts === 0 && deleted === 0 && deletedLocal === 0 && queued === 0 && moved === 0 && failed === 0) {
+				logMessage = "Sync complete: No changes detected";
+			} else {
+				logMessage = `Sync complete: ${uploaded} uploaded, ${downloaded} downloaded`;
+				if (moved > 0) {
+					logMessage += `, ${moved} moved`;
+				}
+				if (deleted > 0) {
+					logMessage += `, ${deleted} deleted from Google Drive`;
+				}
+				if (deletedLocal > 0) {
+					logMessage += `, ${deletedLocal} deleted from vault`;
+				}
+				if (conflicts > 0) {
+					logMessage += `, ${conflicts} conflict${conflicts === 1 ? '' : 's'} resolved`;
+				}
+				if (queued > 0) {
+					logMessage += `, ${queued} conflict${queued === 1 ? '' : 's'} awaiting review`;
+				}
+				if (failed > 0) {
+					logMessage += `, ${failed} failed`;
+				}
+			}
+			console.log(logMessage);
+
+			if (queued > 0) {
+				this.refreshConflictView();
+				new Notice(`${queued} sync conflict${queued === 1 ? ' needs' : 's need'} review. Run "Show Pending Sync Conflicts" to resolve.`);
+			}
+
+			if (failed > 0) {
+				new Notice(`${failed} file${failed === 1 ? '' : 's'} failed to sync and will be retried next time. Run "Show Sync Errors" for details.`);
+			}
+
+		} catch (error) {
+			console.error('Sync failed:', error);
+			this.stopSyncAnimation();
+			this.updateStatusBar('Sync failed');
+			// Still show a notice for errors since they're important
+			new Notice('Sync failed: ' + error.message);
+			run.status = 'failed';
+			run.error = error.message;
+		} finally {
+			run.finishedAt = Date.now();
+			this.currentRun = null;
+			await this.appendSyncHistory(run);
+			this.syncInProgress = false;
+			this.refreshSyncErrorsView();
+		}
+	}
+
+	private currentRun: SyncRun | null = null;
+
+	private logSyncAction(path: string, action: SyncOperation, outcome: SyncOutcome, detail: string) {
+		if (this.currentRun) {
+			this.currentRun.entries.push({ path, action, outcome, detail, time: Date.now() });
+		}
+	}
+
+	private syncHistory: SyncRun[] | null = null;
+
+	public async loadSyncHistory(): Promise<SyncRun[]> {
+		if (!this.syncHistory) {
+			const historyPath = this.getPluginDataPath(SYNC_HISTORY_FILE);
+			try {
+				this.syncHistory = await this.app.vault.adapter.exists(historyPath) ? JSON.parse(await this.app.vault.adapter.read(historyPath)) : [];
+			} catch (error) {
+				console.error('Failed to read sync history:', error);
+				this.syncHistory = [];
+			}
+		}
+		return this.syncHistory!;
+	}
+
+	private async appendSyncHistory(run: SyncRun) {
+		try {
+			const history = await this.loadSyncHistory();
+			history.push(run);
+
+			let entries = history.reduce((total, past) => total + past.entries.length, 0);
+			while (history.length > SYNC_HISTORY_MAX_RUNS || (history.length > 1 && entries > SYNC_HISTORY_MAX_ENTRIES)) {
+				entries -= history.shift()!.entries.length;
+			}
+
+			await this.app.vault.adapter.write(this.getPluginDataPath(SYNC_HISTORY_FILE), JSON.stringify(history));
+			this.refreshSyncHistoryView();
+		} catch (error) {
+			console.error('Failed to save sync history:', error);
+		}
+	}
+
+	public async clearSyncHistory() {
+		this.syncHistory = [];
+		await this.app.vault.adapter.write(this.getPluginDataPath(SYNC_HISTORY_FILE), '[]');
+		this.refreshSyncHistoryView();
+	}
+
+	// Writes the runs to a new note (Markdown) or file (JSON) at the vault root
+	public async exportSyncHistory(runs: SyncRun[], format: 'json' | 'md') {
+		const content = format === 'json' ? JSON.stringify(runs, null, 2) : formatSyncHistoryMarkdown(runs);
+		const file = await this.app.vault.create(`Sync History ${moment().format('YYYY-MM-DD HH-mm-ss')}.${format}`, content);
+		new Notice(`Exported sync history to ${file.path}`);
+		if (format === 'md') {
+			await this.app.workspace.getLeaf(true).openFile(file);
+		}
+	}
+
+	private refreshSyncHistoryView() {
+		for (const leaf of this.app.workspace.getLeavesOfType(SYNC_HISTORY_VIEW_TYPE)) {
+			if (leaf.view instanceof SyncHistoryView) {
+				leaf.view.render();
+			}
+		}
+	}
+
+	/**
+	 * Lists both sides, applies renames and moves and decides what to do with every
+	 * other path. A dry run only detects moves and writes nothing. Returns null if
+	 * the Drive folder can't be used.
+	 */
+	private async prepareSync(toDrive: boolean, fromDrive: boolean, options: SyncOptions, dryRun: boolean): Promise<PreparedSync | null> {
+		// Validate folder exists and is accessible
+		try {
+			await this.validateDriveFolder();
+			await this.prepareEncryption(dryRun);
+		} catch (error) {
+			console.error('Drive folder validation failed:', error);
+			new Notice(`Google Drive sync failed: ${error.message}`);
+			return null;
+		}
+
+		// Clear folder cache at start of sync
+		this.folderIdCache.clear();
+
+		// Excluded paths are left out on both sides and in the sync state, so they
+		// are never uploaded, downloaded or deleted. Config folder files are only
+		// included for the categories enabled in settings
+		const ignoreRules = await this.loadIgnoreRules();
+		const onlyPaths = options.onlyPaths;
+		const isSelected = (path: string) => (!onlyPaths || onlyPaths.includes(path))
+			&& (!this.isConfigPath(path) || this.isConfigFileSynced(path)) && !isPathIgnored(path, ignoreRules);
+		// Exports of native Google files are refreshed on their own and never uploaded
+		const isIncluded = (path: string) => isSelected(path) && !this.settings.googleExports[path];
+
+		// Get all files from vault - use getFiles() for current vault state; the
+		// config folder isn't part of it and is listed through the adapter
+		const vaultFiles = [...this.app.vault.getFiles(), ...await this.listConfigFiles()].filter(file => isIncluded(file.path));
+		const vaultFileMap = new Map<string, LocalFile>();
+
+		for (const file of vaultFiles) {
+			vaultFileMap.set(file.path, file); // Use full path as key
+		}
+
+		// Get all files from Google Drive (incrementally when a changes token is available)
+		const driveFiles = await this.getRemoteFiles();
+		const driveFileMap = new Map<string, DriveFile>();
+
+		// Known folders don't need to be looked up again when uploading
+		const folders = this.settings.remoteIndex!.folders;
+		for (const folderId of Object.keys(folders)) {
+			if (folders[folderId]) {
+				this.folderIdCache.set(folders[folderId], folderId);
+			}
+		}
+
+		for (const file of driveFiles.filter(file => isIncluded(file.path) && !file.mimeType.startsWith(GOOGLE_APPS_MIME_PREFIX))) {
+			driveFileMap.set(file.path, file); // Use full path as key
+		}
+
+		// Native Google files can't be downloaded as they are, only exported
+		const exports: GoogleExportItem[] = [];
+		for (const driveFile of driveFiles.filter(file => file.mimeType.startsWith(GOOGLE_APPS_MIME_PREFIX))) {
+			if (this.settings.publishedDocs[driveFile.id]) {
+				continue; // Published from a note, which is synced itself
+			}
+			const type = GOOGLE_FILE_TYPES[driveFile.mimeType];
+			const extension = type ? this.settings.googleExportFormats[type] : '';
+			const path = `${driveFile.path}.${extension}`;
+			if (!extension || !isSelected(path)) {
+				continue;
+			}
+			if (driveFileMap.has(path) || this.settings.syncState[path]) {
+				console.log(`Not exporting ${driveFile.path}: ${path} is synced as a regular file`);
+				continue;
+			}
+			exports.push({ path, driveFile, mimeType: GOOGLE_EXPORT_FORMATS[type][extension] });
+		}
+		const exportPaths = new Set(exports.map(item => item.path));
+		const staleExports = onlyPaths ? [] : Object.keys(this.settings.googleExports).filter(path => !exportPaths.has(path) && isSelected(path));
+
+		// Apply renames and moves first so they aren't seen as a new file plus a missing one.
+		// Paths of a failed, held back or (in a dry run) pending move are left alone
+		const heldPaths = new Set<string>();
+		const moves = await this.applyMoves(vaultFileMap, driveFileMap, toDrive, fromDrive, isIncluded, heldPaths, dryRun, options.approved?.moves);
+
+		// Every path known to either side or to the last sync is compared three ways:
+		// vault vs. Drive vs. the state recorded when the path was last synced
+		const syncState = this.settings.syncState;
+		const allPaths = new Set<string>([...vaultFileMap.keys(), ...driveFileMap.keys(), ...Object.keys(syncState).filter(isIncluded)]);
+
+		const plan: SyncPlanItem[] = [];
+		const legacySyncTime = Object.keys(syncState).length === 0 ? this.settings.lastSyncTime : 0;
+
+		for (const path of Array.from(allPaths).sort()) {
+			if (this.settings.pendingConflicts[path]) {
+				continue; // Left alone until the user resolves it
+			}
+			if (heldPaths.has(path) || (this.settings.syncFailures[path] && this.settings.syncFailures[path].ignored)) {
+				continue;
+			}
+
+			const vaultFile = vaultFileMap.get(path);
+			const driveFile = driveFileMap.get(path);
+			plan.push({ path, vaultFile, driveFile, decision: await this.decideSyncAction(vaultFile, driveFile, syncState[path], legacySyncTime) });
+		}
+
+		return { plan, moves, exports, staleExports };
+	}
+
+	// Shows what a two-way sync would do without changing anything, then runs the approved part
+	public async previewSync() {
+		if (!this.credentials.refreshToken || !this.settings.folderId) {
+			new Notice('Please authenticate and set Folder ID in settings');
+			return;
+		}
+		if (this.syncInProgress) {
+			new Notice('A sync is already running, try again when it has finished');
+			return;
+		}
+		this.syncInProgress = true;
+
+		let prepared: PreparedSync | null;
+		try {
+			this.startSyncAnimation();
+			prepared = await this.prepareSync(true, true, {}, true);
+		} catch (error) {
+			console.error('Sync preview failed:', error);
+			new Notice(`Sync preview failed: ${error.message}`);
+			return;
+		} finally {
+			this.stopSyncAnimation();
+			this.updateStatusBar('Ready');
+			this.syncInProgress = false;
+		}
+
+		if (prepared) {
+			new SyncPreviewModal(this.app, prepared.moves, prepared.plan, approved => this.performSync(true, true, { trigger: 'preview', approved })).open();
+		}
+	}
+
+	/**
+	 * Exports native Google files into the vault, and again whenever the Google file
+	 * changes. Exports are never uploaded: edits made to them in the vault are replaced
+	 * on the next export. Exports whose Google file is gone are removed. Returns the
+	 * number of files exported.
+	 */
+	private async exportGoogleFiles(items: GoogleExportItem[], staleExports: string[]): Promise<number> {
+		let exported = 0;
+
+		await mapWithConcurrency(items, this.settings.transferConcurrency, async ({ path, driveFile, mimeType }) => {
+			const previous = this.settings.googleExports[path];
+			const exists = await this.app.vault.adapter.exists(path);
+			if (!previous && exists) {
+				console.log(`Not exporting ${driveFile.path}: ${path} already exists in the vault`);
+				return;
+			}
+			if (previous && exists && previous.id === driveFile.id && previous.modifiedTime === driveFile.modifiedTime) {
+				return;
+			}
+
+			try {
+				const exportUrl = `https://www.googleapis.com/drive/v3/files/${driveFile.id}/export?mimeType=${encodeURIComponent(mimeType)}`;
+				const response = await this.driveFetch(exportUrl);
+				if (!response.ok) {
+					throw new DriveApiError(`Export failed: ${response.status} ${response.statusText}`, response.status);
+				}
+				const content = await response.arrayBuffer();
+
+				await this.ensureLocalFolderExists(path.substring(0, path.lastIndexOf('/')));
+				await this.snapshotLocalFile(path, 'overwrite');
+				await this.app.vault.adapter.writeBinary(path, content);
+
+				this.settings.googleExports[path] = { id: driveFile.id, modifiedTime: driveFile.modifiedTime };
+				await this.saveSettings();
+				await this.clearSyncFailure(path);
+				this.logSyncAction(path, 'download', 'done', `exported from ${driveFile.path}`);
+				exported++;
+			} catch (error) {
+				console.error(`Error exporting ${driveFile.path}:`, error);
+				await this.recordSyncFailure(path, 'download', error);
+			}
+		});
+
+		for (const path of staleExports) {
+			try {
+				const file = await this.getLocalFile(path);
+				if (file) {
+					await this.trashLocalFile(file);
+				}
+				delete this.settings.googleExports[path];
+				await this.saveSettings();
+				this.logSyncAction(path, 'delete-local', 'done', 'Google file removed or no longer exported');
+			} catch (error) {
+				console.error(`Error removing export ${path}:`, error);
+				await this.recordSyncFailure(path, 'delete-local', error);
+			}
+		}
+
+		return exported;
+	}
+
+	public async publishNote(file: TFile) {
+		if (!this.credentials.refreshToken || !this.settings.folderId) {
+			new Notice('Please authenticate and set Folder ID in settings');
+			return;
+		}
+		if (this.settings.encryption.enabled) {
+			new Notice('Notes can\'t be published as Google Docs while encryption is on');
+			return;
+		}
+
+		try {
+			const docId = await this.publishToGoogleDoc(file, this.getPublishedDocId(file));
+			new Notice(`Published ${file.basename} as a Google Doc: https://docs.google.com/document/d/${docId}/edit`);
+		} catch (error) {
+			console.error(`Failed to publish ${file.path}:`, error);
+			new Notice(`Publishing failed: ${error.message}`);
+		}
+	}
+
+	private getPublishedDocId(file: TFile): string | undefined {
+		const docId = this.app.metadataCache.getFileCache(file)?.frontmatter?.[PUBLISHED_DOC_KEY];
+		return typeof docId === 'string' && docId ? docId : undefined;
+	}
+
+	// Republishes notes that changed since they were last published
+	private async updatePublishedDocs() {
+		if (this.settings.encryption.enabled) {
+			return;
+		}
+
+		for (const file of this.app.vault.getMarkdownFiles()) {
+			const docId = this.getPublishedDocId(file);
+			if (!docId) {
+				continue;
+			}
+
+			try {
+				const content = await this.app.vault.cachedRead(file);
+				const body = content.substring(getFrontMatterInfo(content).contentStart);
+				if (createHash('md5').update(body).digest('hex') === this.settings.publishedDocs[docId]) {
+					continue;
+				}
+				await this.publishToGoogleDoc(file, docId);
+				this.logSyncAction(file.path, 'upload', 'done', 'published to Google Doc');
+			} catch (error) {
+				console.error(`Failed to update the Google Doc of ${file.path}:`, error);
+				this.logSyncAction(file.path, 'upload', 'failed', `publishing to Google Doc failed: ${error.message}`);
+			}
+		}
+	}
+
+	/**
+	 * Converts a note to a Google Doc next to it on Drive, or replaces the content
+	 * of the Doc it was published to before. The Doc id is kept in the note's
+	 * frontmatter. Returns the Doc id.
+	 */
+	private async publishToGoogleDoc(file: TFile, docId?: string): Promise<string> {
+		const content = await this.app.vault.read(file);
+		const body = content.substring(getFrontMatterInfo(content).contentStart);
+		const html = `<html><head><meta charset="utf-8"></head><body>${await this.renderNoteHtml(file, body)}</body></html>`;
+
+		const folderPath = file.parent && !file.parent.isRoot() ? file.parent.path : '';
+		const metadata = docId
+			? { name: file.basename }
+			: { name: file.basename, mimeType: 'application/vnd.google-apps.document', parents: [await this.ensureFolderPathExists(folderPath)] };
+
+		const boundary = 'boundary_' + Math.random().toString(36).substr(2);
+		const requestBody = '--' + boundary + '\r\n' +
+			'Content-Type: application/json; charset=UTF-8\r\n\r\n' +
+			JSON.stringify(metadata) + '\r\n' +
+			'--' + boundary + '\r\n' +
+			'Content-Type: text/html; charset=UTF-8\r\n\r\n' +
+			html + '\r\n--' + boundary + '--';
+
+		const uploadUrl = docId
+			? `https://www.googleapis.com/upload/drive/v3/files/${docId}?uploadType=multipart&fields=id`
+			: 'https://www.googleapis.com/upload/drive/v3/files?uploadType=multipart&fields=id';
+		const response = await this.driveFetch(uploadUrl, {
+			method: docId ? 'PATCH' : 'POST',
+			headers: {
+				'Content-Type': `multipart/related; boundary=${boundary}`,
+			},
+			body: requestBody,
+		});
+
+		if (docId && response.status === 404) {
+			// Deleted on Drive: forget it, so publishing again creates a new Doc
+			delete this.settings.publishedDocs[docId];
+			await this.saveSettings();
+			await this.app.fileManager.processFrontMatter(file, frontmatter => {
+				delete frontmatter[PUBLISHED_DOC_KEY];
+			});
+			throw new DriveApiError(`The Google Doc of ${file.path} no longer exists, publish the note again to create a new one`, response.status);
+		}
+		if (!response.ok) {
+			throw new DriveApiError(`Publishing failed: ${response.status} ${response.statusText}`, response.status);
+		}
+
+		const publishedId: string = (await response.json()).id;
+		this.settings.publishedDocs[publishedId] = createHash('md5').update(body).digest('hex');
+		await this.saveSettings();
+		if (publishedId !== docId) {
+			await this.app.fileManager.processFrontMatter(file, frontmatter => {
+				frontmatter[PUBLISHED_DOC_KEY] = publishedId;
+			});
+		}
+		return publishedId;
+	}
+
+	/**
+	 * Renders a note to HTML that Google Docs can import. Embedded vault images are
+	 * inlined as data URIs, and links to other notes point to their Google Doc when
+	 * they are published, or become plain text otherwise.
+	 */
+	private async renderNoteHtml(file: TFile, markdown: string): Promise<string> {
+		const imageSource = async (link: string): Promise<string | null> => {
+			const target = this.app.metadataCache.getFirstLinkpathDest(decodeURI(link.split('#')[0]), file.path);
+			const mimeType = target ? this.getMimeType(target.name) : '';
+			if (!target || !mimeType.startsWith('image/')) {
+				return null;
+			}
+			const content = Buffer.from(await this.app.vault.readBinary(target));
+			return `data:${mimeType};base64,${content.toString('base64')}`;
+		};
+
+		// Replacements are worked out first, since they need to read the images
+		const embeds: { match: string; replacement: string }[] = [];
+		const embedPattern = /!\[\[([^\]|]+)(?:\|([^\]]*))?\]\]|!\[([^\]]*)\]\(([^)\s]+)\)/g;
+		let match: RegExpExecArray | null;
+		while ((match = embedPattern.exec(markdown)) !== null) {
+			const link = match[1] || match[4];
+			if (/^(https?|data):/i.test(link)) {
+				continue;
+			}
+			const src = await imageSource(link);
+			if (src) {
+				embeds.push({ match: match[0], replacement: `![${match[2] || match[3] || ''}](${src})` });
+			}
+		}
+		for (const embed of embeds) {
+			markdown = markdown.split(embed.match).join(embed.replacement);
+		}
+
+		const el = document.createElement('div');
+		const component = new Component();
+		component.load();
+		try {
+			await MarkdownRenderer.render(this.app, markdown, el, file.path, component);
+		} finally {
+			component.unload();
+		}
+
+		// Obsidian's editing controls mean nothing in a Doc
+		el.querySelectorAll('button, .collapse-indicator, .list-collapse-indicator').forEach(control => control.remove());
+		el.querySelectorAll('input[type="checkbox"]').forEach(checkbox => {
+			checkbox.replaceWith(document.createTextNode((checkbox as HTMLInputElement).checked ? '☑ ' : '☐ '));
+		});
+
+		el.querySelectorAll('a.internal-link').forEach(anchor => {
+			const target = this.app.metadataCache.getFirstLinkpathDest((anchor.getAttribute('data-href') || anchor.getAttribute('href') || '').split('#')[0], file.path);
+			const docId = target ? this.getPublishedDocId(target) : undefined;
+			if (docId) {
+				anchor.setAttribute('href', `https://docs.google.com/document/d/${docId}/edit`);
+			} else {
+				anchor.replaceWith(document.createTextNode(anchor.textContent || ''));
+			}
+		});
+
+		return el.innerHTML;
+	}
+
+	private async recordSyncFailure(path: string, operation: SyncOperation, error: any) {
+		this.settings.syncFailures[path] = {
+			path,
+			operation,
+			status: error instanceof DriveApiError ? error.status : undefined,
+			message: error instanceof Error ? error.message : String(error),
+			failedAt: Date.now(),
+			ignored: this.settings.syncFailures[path]?.ignored,
+		};
+		this.logSyncAction(path, operation, 'failed', this.settings.syncFailures[path].message);
+		await this.saveSettings();
+	}
+
+	private async clearSyncFailure(path: string) {
+		if (this.settings.syncFailures[path]) {
+			delete this.settings.syncFailures[path];
+			await this.saveSettings();
+		}
+	}
+
+	// Syncs just these files now, including ones that were ignored
+	/**
+	 * Runs a change to synced files or their sync state made outside a sync, such as
+	 * resolving a conflict, and keeps syncs from starting until it is done. Nothing
+	 * runs while a sync is in progress.
+	 */
+	private async runOutsideSync(action: () => Promise<void>) {
+		if (this.syncInProgress) {
+			new Notice('A sync is already running, try again when it has finished');
+			return;
+		}
+		this.syncInProgress = true;
+		try {
+			await action();
+		} finally {
+			this.syncInProgress = false;
+		}
+	}
+
+	public async retrySyncFailures(paths: string[]) {
+		if (this.syncInProgress) {
+			new Notice('A sync is already running, try again when it has finished');
+			return;
+		}
+
+		for (const path of paths) {
+			if (this.settings.syncFailures[path]) {
+				this.settings.syncFailures[path].ignored = false;
+			}
+		}
+		await this.performSync(true, true, { trigger: 'retry', onlyPaths: paths });
+	}
+
+	// Stops retrying these files until they are retried from the errors view
+	public async ignoreSyncFailures(paths: string[]) {
+		for (const path of paths) {
+			if (this.settings.syncFailures[path]) {
+				this.settings.syncFailures[path].ignored = true;
+			}
+		}
+		await this.saveSettings();
+		this.refreshSyncErrorsView();
+	}
+
+	private refreshSyncErrorsView() {
+		for (const leaf of this.app.workspace.getLeavesOfType(SYNC_ERRORS_VIEW_TYPE)) {
+			if (leaf.view instanceof SyncErrorsView) {
+				leaf.view.render();
+			}
+		}
+	}
+
+	/**
+	 * Moves sync state along with files renamed in the vault, so the next sync can
+	 * move the Drive file instead of uploading a copy and deleting the original.
+	 * A renamed folder is recorded in folderMoves so its Drive folder is moved whole.
+	 */
+	private async handleVaultRename(file: TAbstractFile, oldPath: string) {
+		const syncState = this.settings.syncState;
+		const oldPaths = file instanceof TFolder
+			? Object.keys(syncState).filter(path => path.startsWith(oldPath + '/'))
+			: [oldPath];
+
+		let changed = false;
+		for (const old of oldPaths) {
+			const record = syncState[old];
+			if (!record) {
+				continue; // Never synced, or already moved by the sync itself
+			}
+
+			const newPath = file.path + old.substring(oldPath.length);
+			const movedFrom = record.movedFrom || old;
+			syncState[newPath] = Object.assign({}, record, { movedFrom: movedFrom !== newPath ? movedFrom : undefined });
+			delete syncState[old];
+			await this.moveMergeBase(old, newPath);
+
+			if (this.settings.pendingConflicts[old]) {
+				this.settings.pendingConflicts[newPath] = Object.assign({}, this.settings.pendingConflicts[old], { path: newPath });
+				delete this.settings.pendingConflicts[old];
+			}
+			changed = true;
+		}
+
+		if (file instanceof TFolder && changed) {
+			// Renaming a folder again, or the folder around one, updates the moves already pending
+			const folderMoves = this.settings.folderMoves;
+			let driveFolderPath = oldPath;
+			for (const path of Object.keys(folderMoves)) {
+				if (path === oldPath) {
+					driveFolderPath = folderMoves[path];
+					delete folderMoves[path];
+				} else if (path.startsWith(oldPath + '/')) {
+					folderMoves[file.path + path.substring(oldPath.length)] = folderMoves[path];
+					delete folderMoves[path];
+				}
+			}
+			if (driveFolderPath !== file.path) {
+				folderMoves[file.path] = driveFolderPath;
+			}
+		}
+
+		if (changed) {
+			await this.saveSettings();
+		}
+	}
+
+	/**
+	 * Detects files moved or renamed on one side since the last sync and moves them
+	 * on the other side too, keeping the Drive file id, revisions and sharing. The
+	 * maps and sync state are updated in place. Both paths of a move that failed, was
+	 * not approved, or is only detected in a dry run are added to heldPaths. Returns
+	 * the moves applied, or in a dry run the moves that would be. Folders renamed in
+	 * the vault are moved first, each as a single Drive move.
+	 */
+	private async applyMoves(vaultFileMap: Map<string, LocalFile>, driveFileMap: Map<string, DriveFile>, toDrive: boolean, fromDrive: boolean,
+		isIncluded: (path: string) => boolean, heldPaths: Set<string>, dryRun: boolean, approvedMoves?: PlannedMove[]): Promise<PlannedMove[]> {
+		const syncState = this.settings.syncState;
+		const moves: PlannedMove[] = [];
+
+		// Whether a detected move should be applied now; otherwise both its paths are held back
+		const shouldApply = (move: PlannedMove): boolean => {
+			const approved = !approvedMoves || approvedMoves.some(approvedMove => approvedMove.from === move.from && approvedMove.to === move.to);
+			if (dryRun || !approved) {
+				if (dryRun) {
+					moves.push(move);
+				}
+				heldPaths.add(move.from).add(move.to);
+				return false;
+			}
+			return true;
+		};
+
+		// Files in a folder move that is held back aren't moved one by one either
+		const heldFolderPaths = toDrive ? await this.applyFolderMoves(driveFileMap, isIncluded, heldPaths, dryRun, shouldApply, moves) : new Set<string>();
+
+		const driveFilesById = new Map<string, DriveFile>();
+		driveFileMap.forEach(driveFile => driveFilesById.set(driveFile.id, driveFile));
+
+		for (const path of Object.keys(syncState).filter(isIncluded)) {
+			const record = syncState[path];
+			const driveFile = driveFilesById.get(record.id);
+			const vaultFile = vaultFileMap.get(path);
+
+			if (record.movedFrom) {
+				if (!toDrive || heldFolderPaths.has(path)) {
+					continue; // Keep the pending move for a sync that uploads
+				}
+
+				if (vaultFile && driveFile && driveFile.path !== path && !driveFileMap.has(path)) {
+					// Renamed in the vault: move the Drive file to match
+					const move: PlannedMove = { from: driveFile.path, to: path, target: 'drive' };
+					if (!shouldApply(move)) {
+						continue;
+					}
+					console.log(`Moving ${driveFile.path} to ${path} on Google Drive`);
+					let movedFile: DriveFile;
+					try {
+						movedFile = await this.moveDriveFile(driveFile, path);
+					} catch (error) {
+						await this.recordSyncFailure(path, 'move', error);
+						heldPaths.add(path).add(driveFile.path);
+						continue;
+					}
+					driveFileMap.delete(driveFile.path);
+					driveFileMap.set(path, movedFile);
+					driveFilesById.set(movedFile.id, movedFile);
+					moves.push(move);
+				} else if (!vaultFile && driveFile && driveFile.path !== path && !syncState[driveFile.path]) {
+					// Renamed and then deleted: track it under its Drive path so the deletion is synced
+					if (dryRun) {
+						heldPaths.add(path).add(driveFile.path);
+						continue;
+					}
+					await this.removeSyncRecord(path);
+					await this.updateSyncRecord(driveFile.path, Object.assign({}, record, { movedFrom: undefined }));
+					continue;
+				}
+				if (!dryRun) {
+					await this.updateSyncRecord(path, Object.assign({}, record, { movedFrom: undefined }));
+				}
+			} else if (fromDrive && vaultFile && driveFile && driveFile.path !== path && !vaultFileMap.has(driveFile.path)) {
+				// Moved or renamed on Drive: move the vault file to match
+				const move: PlannedMove = { from: path, to: driveFile.path, target: 'vault' };
+				if (!shouldApply(move)) {
+					continue;
+				}
+				console.log(`Moving ${path} to ${driveFile.path} in vault`);
+				try {
+					await this.moveVaultFile(vaultFile, driveFile.path, vaultFileMap);
+					moves.push(move);
+				} catch (error) {
+					await this.recordSyncFailure(driveFile.path, 'move', error);
+					heldPaths.add(path).add(driveFile.path);
+				}
+			}
+		}
+
+		// Moves made while the plugin wasn't watching show up as a file gone from one
+		// path and an unknown file with the same content at another
+		const unknownVaultFiles = Array.from(vaultFileMap.values()).filter(file => !syncState[file.path] && !driveFileMap.has(file.path));
+		const unknownDriveFiles = Array.from(driveFileMap.values()).filter(file => !syncState[file.path] && !vaultFileMap.has(file.path));
+
+		if (toDrive) {
+			for (const file of unknownVaultFiles) {
+				const oldPath = Object.keys(syncState).filter(isIncluded).find(path => {
+					const record = syncState[path];
+					const driveFile = driveFilesById.get(record.id);
+					return !vaultFileMap.has(path) && !heldPaths.has(path) && record.size === file.stat.size && driveFile !== undefined && driveFile.path === path;
+				});
+				if (!oldPath || await this.hashVaultFile(file) !== syncState[oldPath].hash) {
+					continue;
+				}
+
+				const move: PlannedMove = { from: oldPath, to: file.path, target: 'drive' };
+				if (!shouldApply(move)) {
+					continue;
+				}
+				const driveFile = driveFilesById.get(syncState[oldPath].id)!;
+				console.log(`Detected vault move of ${oldPath} to ${file.path}, moving on Google Drive`);
+				let movedFile: DriveFile;
+				try {
+					movedFile = await this.moveDriveFile(driveFile, file.path);
+				} catch (error) {
+					await this.recordSyncFailure(file.path, 'move', error);
+					heldPaths.add(oldPath).add(file.path);
+					continue;
+				}
+				driveFileMap.delete(driveFile.path);
+				driveFileMap.set(file.path, movedFile);
+				driveFilesById.set(movedFile.id, movedFile);
+
+				const record = Object.assign({}, syncState[oldPath], { mtime: file.stat.mtime, remoteModifiedTime: movedFile.modifiedTime });
+				await this.removeSyncRecord(oldPath);
+				await this.updateSyncRecord(file.path, record);
+				moves.push(move);
+			}
+		}
+
+		if (fromDrive) {
+			for (const driveFile of unknownDriveFiles) {
+				const oldPath = Object.keys(syncState).filter(isIncluded).find(path => {
+					const record = syncState[path];
+					const vaultFile = vaultFileMap.get(path);
+					return !driveFilesById.has(record.id) && !heldPaths.has(path) && (record.remoteHash || record.hash) === driveFile.md5Checksum
+						&& vaultFile !== undefined && vaultFile.stat.mtime === record.mtime && vaultFile.stat.size === record.size;
+				});
+				if (!oldPath) {
+					continue;
+				}
+
+				const move: PlannedMove = { from: oldPath, to: driveFile.path, target: 'vault' };
+				if (!shouldApply(move)) {
+					continue;
+				}
+				console.log(`Detected Drive move of ${oldPath} to ${driveFile.path}, moving in vault`);
+				syncState[oldPath].id = driveFile.id;
+				try {
+					await this.moveVaultFile(vaultFileMap.get(oldPath)!, driveFile.path, vaultFileMap);
+					moves.push(move);
+				} catch (error) {
+					await this.recordSyncFailure(driveFile.path, 'move', error);
+					heldPaths.add(oldPath).add(driveFile.path);
+				}
+			}
+		}
+
+		return moves;
+	}
+
+	/**
+	 * Moves the Drive folder of each folder renamed in the vault, along with
+	 * everything in it, and updates driveFileMap and the sync state to match. A move
+	 * that can't be made whole, because the folder isn't on Drive or one is already
+	 * at the new path, is dropped and its files are moved one by one. Returns the
+	 * synced files in folder moves that failed, weren't approved or are only
+	 * detected in a dry run.
+	 */
+	private async applyFolderMoves(driveFileMap: Map<string, DriveFile>, isIncluded: (path: string) => boolean, heldPaths: Set<string>, dryRun: boolean,
+		shouldApply: (move: PlannedMove) => boolean, moves: PlannedMove[]): Promise<Set<string>> {
+		const syncState = this.settings.syncState;
+		const folderMoves = this.settings.folderMoves;
+		const heldFolderPaths = new Set<string>();
+		const holdFiles = (paths: string[]) => paths.forEach(path => {
+			heldFolderPaths.add(path);
+			heldPaths.add(path).add(syncState[path].movedFrom || path);
+		});
+
+		// Outer folders first, so the Drive paths of folders inside them can be updated
+		for (const to of Object.keys(folderMoves).sort((a, b) => a.split('/').length - b.split('/').length)) {
+			const from = folderMoves[to];
+			const movedPaths = Object.keys(syncState).filter(path => path.startsWith(to + '/'));
+			if (!movedPaths.every(isIncluded)) {
+				continue; // Keep the pending move for a sync that includes the whole folder
+			}
+
+			const folderId = await this.findDriveFolderPath(from);
+			if (!folderId || await this.findDriveFolderPath(to)) {
+				if (!dryRun) {
+					delete folderMoves[to];
+					await this.saveSettings();
+				}
+				continue;
+			}
+
+			const move: PlannedMove = { from, to, target: 'drive' };
+			if (!shouldApply(move)) {
+				holdFiles(movedPaths);
+				continue;
+			}
+			console.log(`Moving folder ${from} to ${to} on Google Drive`);
+			try {
+				await this.moveDriveItem(folderId, from, to);
+			} catch (error) {
+				await this.recordSyncFailure(to, 'move', error);
+				holdFiles(movedPaths);
+				continue;
+			}
+
+			delete folderMoves[to];
+			for (const other of Object.keys(folderMoves)) {
+				if (folderMoves[other].startsWith(from + '/')) {
+					folderMoves[other] = to + folderMoves[other].substring(from.length);
+				}
+			}
+			for (const path of Array.from(this.folderIdCache.keys())) {
+				if (path === from || path.startsWith(from + '/')) {
+					this.folderIdCache.set(to + path.substring(from.length), this.folderIdCache.get(path)!);
+					this.folderIdCache.delete(path);
+				}
+			}
+			for (const driveFile of Array.from(driveFileMap.values()).filter(driveFile => driveFile.path.startsWith(from + '/'))) {
+				const newPath = to + driveFile.path.substring(from.length);
+				driveFileMap.delete(driveFile.path);
+				driveFileMap.set(newPath, Object.assign({}, driveFile, { path: newPath }));
+			}
+			for (const path of movedPaths) {
+				const record = syncState[path];
+				if (record.movedFrom === from + path.substring(to.length)) {
+					await this.updateSyncRecord(path, Object.assign({}, record, { movedFrom: undefined }));
+				}
+			}
+			await this.saveSettings();
+			moves.push(move);
+		}
+
+		return heldFolderPaths;
+	}
+
+	// Renames a Drive file or folder, moving it to another folder when its parent path changes
+	private async moveDriveItem(id: string, oldPath: string, newPath: string): Promise<RemoteItem> {
+		const oldFolderPath = oldPath.includes('/') ? oldPath.substring(0, oldPath.lastIndexOf('/')) : '';
+		const newFolderPath = newPath.includes('/') ? newPath.substring(0, newPath.lastIndexOf('/')) : '';
+
+		let parents: { from: string; to: string } | undefined;
+		if (oldFolderPath !== newFolderPath) {
+			parents = {
+				from: await this.ensureFolderPathExists(oldFolderPath),
+				to: await this.ensureFolderPathExists(newFolderPath),
+			};
+		}
+
+		return this.remote.move(id, await this.getDriveName(newPath.substring(newPath.lastIndexOf('/') + 1)), parents);
+	}
+
+	private async moveDriveFile(driveFile: DriveFile, newPath: string): Promise<DriveFile> {
+		const item = await this.moveDriveItem(driveFile.id, driveFile.path, newPath);
+		return toDriveFile(item, newPath, await this.getEncryptionKeys() !== null);
+	}
+
+	private async moveVaultFile(vaultFile: LocalFile, newPath: string, vaultFileMap: Map<string, LocalFile>) {
+		const oldPath = vaultFile.path;
+		if (newPath.includes('/')) {
+			await this.ensureLocalFolderExists(newPath.substring(0, newPath.lastIndexOf('/')));
+		}
+
+		// Move the record first so the rename event doesn't mark this as a vault-side move
+		const record = this.settings.syncState[oldPath];
+		if (record) {
+			this.settings.syncState[newPath] = record;
+			delete this.settings.syncState[oldPath];
+			await this.moveMergeBase(oldPath, newPath);
+		}
+
+		let movedFile: LocalFile;
+		if (vaultFile instanceof TFile) {
+			await this.app.vault.rename(vaultFile, newPath);
+			movedFile = vaultFile;
+		} else {
+			await this.app.vault.adapter.rename(oldPath, newPath);
+			movedFile = { path: newPath, name: newPath.substring(newPath.lastIndexOf('/') + 1), stat: vaultFile.stat };
+		}
+		await this.saveSettings();
+
+		vaultFileMap.delete(oldPath);
+		vaultFileMap.set(newPath, movedFile);
+	}
+
+	/**
+	 * Decides what to do with one path. legacySyncTime is the last sync of a version
+	 * that kept no sync records, or 0: until the first records are written, files on
+	 * both sides are decided by what was modified since then, as that version did.
+	 */
+	private async decideSyncAction(vaultFile: LocalFile | undefined, driveFile: DriveFile | undefined, record: SyncRecord | undefined, legacySyncTime: number): Promise<SyncDecision> {
+		if (vaultFile && driveFile) {
+			if (!record) {
+				// Never synced from this device: only identical content is safe to link up
+				const localHash = await this.hashVaultFile(vaultFile);
+				if (driveFile.md5Checksum === localHash) {
+					return { action: 'in-sync', reason: 'identical content on both sides', localHash };
+				}
+				if (legacySyncTime > 0) {
+					const vaultTime = vaultFile.stat.mtime;
+					const driveTime = new Date(driveFile.modifiedTime).getTime();
+					const vaultChanged = vaultTime > legacySyncTime + 2000; // 2 second buffer
+					const driveChanged = driveTime > legacySyncTime + 2000;
+					if (vaultChanged && driveChanged) {
+						return { action: 'conflict', reason: 'vault and Drive both modified since the last sync before sync records', localHash };
+					}
+					if (vaultChanged || (!driveChanged && vaultTime > driveTime)) {
+						return { action: 'upload', reason: 'vault modified more recently, before sync records', localHash };
+					}
+					return { action: 'download', reason: 'Drive modified more recently, before sync records' };
+				}
+				return { action: 'conflict', reason: 'exists on both sides without a sync record', localHash };
+			}
+
+			const localHash = await this.getChangedLocalHash(vaultFile, record);
+			const vaultChanged = localHash !== null && localHash !== record.hash;
+			const driveChanged = this.hasRemoteChanged(driveFile, record);
+
+			if (vaultChanged && driveChanged) {
+				if (driveFile.md5Checksum === localHash) {
+					return { action: 'in-sync', reason: 'both sides changed to identical content', localHash };
+				}
+				return { action: 'conflict', reason: 'vault and Drive both changed since last sync', localHash };
+			}
+			if (vaultChanged) {
+				return { action: 'upload', reason: 'vault changed since last sync', localHash };
+			}
+			if (driveChanged) {
+				return { action: 'download', reason: 'Drive changed since last sync' };
+			}
+			if (localHash !== null || driveFile.modifiedTime !== record.remoteModifiedTime) {
+				// Touched without a content change
+				return { action: 'in-sync', reason: 'metadata changed, content unchanged', localHash: record.hash };
+			}
+			return { action: 'skip', reason: 'unchanged since last sync' };
+		}
+
+		if (vaultFile) {
+			if (!record) {
+				return { action: 'upload', reason: 'new in vault' };
+			}
+			// Deleted or trashed on Drive; local edits made since the last sync win over the deletion
+			const localHash = await this.getChangedLocalHash(vaultFile, record);
+			if (localHash !== null && localHash !== record.hash) {
+				return { action: 'upload', reason: 'deleted from Drive but changed in vault since last sync', localHash };
+			}
+			return { action: 'delete-local', reason: 'deleted from Drive since last sync' };
+		}
+
+		if (driveFile) {
+			if (!record) {
+				return { action: 'download', reason: 'new on Drive' };
+			}
+			if (this.hasRemoteChanged(driveFile, record)) {
+				return { action: 'download', reason: 'deleted from vault but changed on Drive since last sync' };
+			}
+			return { action: 'delete-remote', reason: 'deleted from vault since last sync' };
+		}
+
+		return { action: 'forget', reason: 'gone from both sides' };
+	}
+
+	/**
+	 * Returns the current content hash if the vault file may have changed since
+	 * the record was written, or null if its mtime and size still match.
+	 */
+	private async getChangedLocalHash(file: LocalFile, record: SyncRecord): Promise<string | null> {
+		if (file.stat.mtime === record.mtime && file.stat.size === record.size) {
+			return null;
+		}
+		return this.hashVaultFile(file);
+	}
+
+	private hasRemoteChanged(driveFile: DriveFile, record: SyncRecord): boolean {
+		if (driveFile.id !== record.id) {
+			return true; // Replaced by a different Drive file
+		}
+		if (driveFile.modifiedTime === record.remoteModifiedTime) {
+			return false;
+		}
+		// Drive bumps modifiedTime for metadata-only changes, so trust the checksum when there is one
+		return driveFile.md5Checksum ? driveFile.md5Checksum !== (record.remoteHash || record.hash) : true;
+	}
+
+	private async hashVaultFile(file: LocalFile): Promise<string> {
+		const content = await this.app.vault.adapter.readBinary(file.path);
+		return createHash('md5').update(Buffer.from(content)).digest('hex');
+	}
+
+	private async updateSyncRecord(path: string, record: SyncRecord) {
+		this.settings.syncState[path] = record;
+		await this.saveSettings();
+		await this.saveMergeBase(path, record.hash);
+	}
+
+	// Records both sides as they are now, without transferring anything
+	private async markInSync(vaultFile: LocalFile, driveFile: DriveFile, localHash?: string) {
+		const hash = localHash || await this.hashVaultFile(vaultFile);
+		await this.updateSyncRecord(vaultFile.path, {
+			id: driveFile.id,
+			hash,
+			remoteHash: driveFile.md5Checksum !== hash ? driveFile.md5Checksum : undefined,
+			size: vaultFile.stat.size,
+			mtime: vaultFile.stat.mtime,
+			remoteModifiedTime: driveFile.modifiedTime,
+		});
+	}
+
+	private async removeSyncRecord(path: string) {
+		if (this.settings.syncState[path]) {
+			delete this.settings.syncState[path];
+			await this.saveSettings();
+		}
+		await this.removeMergeBase(path);
+	}
+
+	private getPluginDataPath(name: string): string {
+		const pluginDir = this.manifest.dir || `${this.app.vault.configDir}/plugins/${this.manifest.id}`;
+		return `${pluginDir}/${name}`;
+	}
+
+	// Last synced versions of text files are kept by path hash as the base for three-way merges
+	private getMergeBasePath(path: string): string {
+		return this.getPluginDataPath(`merge-base/${createHash('md5').update(path).digest('hex')}`);
+	}
+
+	private isMergeable(fileName: string): boolean {
+		const ext = fileName.split('.').pop()?.toLowerCase();
+		return ext === 'md' || ext === 'txt';
+	}
+
+	private async saveMergeBase(path: string, hash: string) {
+		if (!this.isMergeable(path)) {
+			return;
+		}
+
+		try {
+			// Only keep it if the vault still holds exactly the synced content
+			const content = await this.app.vault.adapter.read(path);
+			if (createHash('md5').update(content).digest('hex') !== hash) {
+				await this.removeMergeBase(path);
+				return;
+			}
+
+			const basePath = this.getMergeBasePath(path);
+			await this.ensureLocalFolderExists(basePath.substring(0, basePath.lastIndexOf('/')));
+			await this.app.vault.adapter.write(basePath, content);
+		} catch (error) {
+			console.error(`Failed to store merge base for ${path}:`, error);
+		}
+	}
+
+	private async loadMergeBase(path: string, hash: string): Promise<string | null> {
+		const basePath = this.getMergeBasePath(path);
+		if (!await this.app.vault.adapter.exists(basePath)) {
+			return null;
+		}
+
+		const content = await this.app.vault.adapter.read(basePath);
+		return createHash('md5').update(content).digest('hex') === hash ? content : null;
+	}
+
+	private async moveMergeBase(oldPath: string, newPath: string) {
+		const oldBasePath = this.getMergeBasePath(oldPath);
+		if (await this.app.vault.adapter.exists(oldBasePath)) {
+			await this.removeMergeBase(newPath);
+			await this.app.vault.adapter.rename(oldBasePath, this.getMergeBasePath(newPath));
+		}
+	}
+
+	private async removeMergeBase(path: string) {
+		const basePath = this.getMergeBasePath(path);
+		if (await this.app.vault.adapter.exists(basePath)) {
+			await this.app.vault.adapter.remove(basePath);
+		}
+	}
+
+	private async pushFile(file: LocalFile, fileId?: string) {
+		const folderPath = file.path.includes('/') ? file.path.substring(0, file.path.lastIndexOf('/')) : '';
+		const parentFolderId = await this.ensureFolderPathExists(folderPath);
+
+		// Capture the stat before reading so an edit made during the upload is picked up next time.
+		// It comes from the adapter since config files have no TFile to keep it current
+		const stat = await this.app.vault.adapter.stat(file.path);
+		if (!stat) {
+			throw new Error(`${file.path} is missing from the vault`);
+		}
+		const { mtime, size } = stat;
+		const result = await this.uploadFileToFolder(file, parentFolderId, fileId);
+
+		await this.updateSyncRecord(file.path, {
+			id: result.id,
+			hash: result.contentHash,
+			remoteHash: result.md5Checksum !== result.contentHash ? result.md5Checksum : undefined,
+			size,
+			mtime,
+			remoteModifiedTime: result.modifiedTime,
+		});
+	}
+
+	private async pullFile(driveFile: DriveFile) {
+		const hash = await this.downloadFile(driveFile);
+		const stat = await this.app.vault.adapter.stat(driveFile.path);
+		if (!stat) {
+			throw new Error(`Downloaded file ${driveFile.path} is missing from the vault`);
+		}
+
+		await this.updateSyncRecord(driveFile.path, {
+			id: driveFile.id,
+			hash,
+			remoteHash: driveFile.md5Checksum !== hash ? driveFile.md5Checksum : undefined,
+			size: stat.size,
+			mtime: stat.mtime,
+			remoteModifiedTime: driveFile.modifiedTime,
+		});
+	}
+
+	private isConfigPath(path: string): boolean {
+		const configDir = this.app.vault.configDir;
+		return path === configDir || path.startsWith(`${configDir}/`);
+	}
+
+	// Whether a file in the config folder belongs to a category enabled in settings
+	private isConfigFileSynced(path: string): boolean {
+		const parts = path.substring(this.app.vault.configDir.length + 1).split('/');
+		const configSync = this.settings.configSync;
+
+		if (parts.length === 1) {
+			switch (parts[0]) {
+				case 'community-plugins.json': return configSync.communityPlugins;
+				case 'hotkeys.json': return configSync.hotkeys;
+				default: return configSync.core && !DEVICE_CONFIG_FILES.includes(parts[0]);
+			}
+		}
+
+		switch (parts[0]) {
+			case 'plugins':
+				if (parts[1] === this.manifest.id) {
+					return configSync.plugins && PLUGIN_CODE_FILES.includes(parts.slice(2).join('/'));
+				}
+				return configSync.plugins;
+			case 'themes': return configSync.themes;
+			case 'snippets': return configSync.snippets;
+			default: return false;
+		}
+	}
+
+	// Lists the config folder files in enabled categories, which vault.getFiles() leaves out
+	private async listConfigFiles(): Promise<LocalFile[]> {
+		const configDir = this.app.vault.configDir;
+		const { plugins, themes, snippets } = this.settings.configSync;
+		const files: LocalFile[] = [];
+
+		const listFolder = async (folder: string, recursive: boolean) => {
+			if (!await this.app.vault.adapter.exists(folder)) {
+				return;
+			}
+			const listed = await this.app.vault.adapter.list(folder);
+			for (const path of listed.files.filter(path => this.isConfigFileSynced(path))) {
+				const file = await this.getLocalFile(path);
+				if (file) {
+					files.push(file);
+				}
+			}
+			if (recursive) {
+				for (const subfolder of listed.folders) {
+					await listFolder(subfolder, true);
+				}
+			}
+		};
+
+		// Other subfolders of the config folder hold caches and are never descended into
+		await listFolder(configDir, false);
+		if (plugins) {
+			await listFolder(`${configDir}/plugins`, true);
+		}
+		if (themes) {
+			await listFolder(`${configDir}/themes`, true);
+		}
+		if (snippets) {
+			await listFolder(`${configDir}/snippets`, true);
+		}
+		return files;
+	}
+
+	// Looks up a vault file, falling back to the adapter for config folder files
+	private async getLocalFile(path: string): Promise<LocalFile | null> {
+		const file = this.app.vault.getAbstractFileByPath(path);
+		if (file instanceof TFile) {
+			return file;
+		}
+
+		const stat = await this.app.vault.adapter.stat(path);
+		if (!stat || stat.type !== 'file') {
+			return null;
+		}
+		return { path, name: path.substring(path.lastIndexOf('/') + 1), stat: { mtime: stat.mtime, size: stat.size } };
+	}
+
+	private async writeLocalText(file: LocalFile, text: string) {
+		await this.snapshotLocalFile(file.path, 'overwrite');
+		if (file instanceof TFile) {
+			await this.app.vault.modify(file, text);
+		} else {
+			await this.app.vault.adapter.write(file.path, text);
+		}
+	}
+
+	// Goes to the system trash or .trash, following the vault's deletion setting for vault files
+	private async trashLocalFile(file: LocalFile) {
+		await this.snapshotLocalFile(file.path, 'delete');
+		if (file instanceof TFile) {
+			await this.app.fileManager.trashFile(file);
+		} else if (!await this.app.vault.adapter.trashSystem(file.path)) {
+			await this.app.vault.adapter.trashLocal(file.path);
+		}
+	}
+
+	private snapshots: SyncSnapshot[] | null = null;
+	private snapshotQueue: Promise<void> = Promise.resolve();
+
+	// Oldest first
+	public async loadSnapshots(): Promise<SyncSnapshot[]> {
+		if (!this.snapshots) {
+			const indexPath = this.getPluginDataPath(SNAPSHOT_INDEX_FILE);
+			try {
+				this.snapshots = await this.app.vault.adapter.exists(indexPath) ? JSON.parse(await this.app.vault.adapter.read(indexPath)) : [];
+			} catch (error) {
+				console.error('Failed to read snapshot index:', error);
+				this.snapshots = [];
+			}
+		}
+		return this.snapshots!;
+	}
+
+	private getSnapshotPath(hash: string): string {
+		return this.getPluginDataPath(`${SNAPSHOT_FOLDER}/${hash}`);
+	}
+
+	/**
+	 * Keeps a copy of a local file before sync overwrites or deletes it. Does
+	 * nothing if the file doesn't exist or snapshots are turned off. Snapshots are
+	 * taken one at a time, since parallel transfers share the index.
+	 */
+	private snapshotLocalFile(path: string, reason: SyncSnapshot['reason']): Promise<void> {
+		const snapshot = this.snapshotQueue.then(() => this.takeSnapshot(path, reason));
+		this.snapshotQueue = snapshot.catch(() => undefined);
+		return snapshot;
+	}
+
+	private async takeSnapshot(path: string, reason: SyncSnapshot['reason']) {
+		if (this.settings.snapshotRetentionDays <= 0 || !await this.app.vault.adapter.exists(path)) {
+			return;
+		}
+
+		const content = await this.app.vault.adapter.readBinary(path);
+		const hash = createHash('md5').update(Buffer.from(content)).digest('hex');
+		const snapshotPath = this.getSnapshotPath(hash);
+		if (!await this.app.vault.adapter.exists(snapshotPath)) {
+			await this.ensureLocalFolderExists(this.getPluginDataPath(SNAPSHOT_FOLDER));
+			await this.app.vault.adapter.writeBinary(snapshotPath, content);
+		}
+
+		const snapshots = await this.loadSnapshots();
+		snapshots.push({ path, hash, size: content.byteLength, takenAt: Date.now(), reason });
+		await this.pruneSnapshots(snapshots);
+	}
+
+	// Drops snapshots past the retention period, then the oldest ones while the stored copies
+	// exceed the size limit. The newest is always kept, even if it is larger than the limit
+	private async pruneSnapshots(snapshots: SyncSnapshot[]) {
+		const cutoff = Date.now() - this.settings.snapshotRetentionDays * 24 * 60 * 60 * 1000;
+		const maxBytes = this.settings.snapshotMaxSize * 1024 * 1024;
+
+		const references = new Map<string, number>(); // hash -> snapshots using it
+		let storedBytes = 0;
+		for (const snapshot of snapshots) {
+			if (!references.has(snapshot.hash)) {
+				storedBytes += snapshot.size;
+			}
+			references.set(snapshot.hash, (references.get(snapshot.hash) || 0) + 1);
+		}
+
+		const unreferenced: string[] = [];
+		while (snapshots.length > 0 && (snapshots[0].takenAt < cutoff || (maxBytes > 0 && storedBytes > maxBytes && snapshots.length > 1))) {
+			const dropped = snapshots.shift()!;
+			const remaining = references.get(dropped.hash)! - 1;
+			references.set(dropped.hash, remaining);
+			if (remaining === 0) {
+				storedBytes -= dropped.size;
+				unreferenced.push(dropped.hash);
+			}
+		}
+
+		for (const hash of unreferenced) {
+			if (await this.app.vault.adapter.exists(this.getSnapshotPath(hash))) {
+				await this.app.vault.adapter.remove(this.getSnapshotPath(hash));
+			}
+		}
+		await this.app.vault.adapter.write(this.getPluginDataPath(SNAPSHOT_INDEX_FILE), JSON.stringify(snapshots));
+	}
+
+	public async showSnapshots() {
+		const snapshots = await this.loadSnapshots();
+		const activeFile = this.app.workspace.getActiveFile();
+		const initialPath = activeFile && snapshots.some(snapshot => snapshot.path === activeFile.path) ? activeFile.path : null;
+		new SnapshotModal(this.app, this, snapshots, initialPath).open();
+	}
+
+	// The current version, if any, is snapshotted first so restoring can be undone
+	public async restoreSnapshot(snapshot: SyncSnapshot) {
+		await this.runOutsideSync(async () => {
+			const content = await this.app.vault.adapter.readBinary(this.getSnapshotPath(snapshot.hash));
+			await this.snapshotLocalFile(snapshot.path, 'overwrite');
+
+			const file = this.app.vault.getAbstractFileByPath(snapshot.path);
+			if (file instanceof TFile) {
+				await this.app.vault.modifyBinary(file, content);
+			} else {
+				await this.ensureLocalFolderExists(snapshot.path.substring(0, snapshot.path.lastIndexOf('/')));
+				if (this.isConfigPath(snapshot.path)) {
+					await this.app.vault.adapter.writeBinary(snapshot.path, content);
+				} else {
+					await this.app.vault.createBinary(snapshot.path, content);
+				}
+			}
+			new Notice(`Restored ${snapshot.path} from the snapshot of ${moment(snapshot.takenAt).format('YYYY-MM-DD HH:mm')}`);
+		});
+	}
+
+	public async saveSnapshotCopy(snapshot: SyncSnapshot) {
+		const content = await this.app.vault.adapter.readBinary(this.getSnapshotPath(snapshot.hash));
+		const copyPath = await this.getCopyPath(snapshot.path, `snapshot ${moment(snapshot.takenAt).format('YYYY-MM-DD HH-mm-ss')}`);
+		await this.ensureLocalFolderExists(copyPath.substring(0, copyPath.lastIndexOf('/')));
+		if (this.isConfigPath(copyPath)) {
+			await this.app.vault.adapter.writeBinary(copyPath, content);
+		} else {
+			await this.app.vault.createBinary(copyPath, content);
+		}
+		new Notice(`Saved the snapshot of ${moment(snapshot.takenAt).format('YYYY-MM-DD HH:mm')} as ${copyPath}`);
+	}
+
+	private reportedInvalidRules = '';
+
+	// Invalid patterns are skipped rather than failing every sync, and reported once until they change
+	public async loadIgnoreRules(): Promise<IgnoreRule[]> {
+		const invalid: string[] = [];
+		const rules = parseIgnoreRules(this.settings.excludePatterns, 'settings', invalid);
+
+		if (await this.app.vault.adapter.exists(IGNORE_FILE_NAME)) {
+			rules.push(...parseIgnoreRules(await this.app.vault.adapter.read(IGNORE_FILE_NAME), IGNORE_FILE_NAME, invalid));
+		}
+
+		const report = invalid.join('\n');
+		if (report && report !== this.reportedInvalidRules) {
+			console.warn(`Skipped invalid exclude patterns:\n${report}`);
+			new Notice(`Skipped invalid exclude pattern${invalid.length === 1 ? '' : 's'}:\n${report}`);
+		}
+		this.reportedInvalidRules = report;
+		return rules;
+	}
+
+	public async previewIgnoreRules() {
+		const localFiles = [...this.app.vault.getFiles(), ...await this.listConfigFiles()];
+		const paths = new Set<string>(localFiles.map(file => file.path));
+		const index = this.settings.remoteIndex;
+		if (index) {
+			Object.keys(index.files).forEach(id => paths.add(index.files[id].path));
+		}
+
+		new IgnorePreviewModal(this.app, await this.loadIgnoreRules(), Array.from(paths).sort()).open();
+	}
+
+	private exceedsDeletionThreshold(deletions: number): boolean {
+		if (deletions === 0) {
+			return false;
+		}
+
+		const { deletionConfirmCount, deletionConfirmPercent } = this.settings;
+		const syncedFiles = Math.max(Object.keys(this.settings.syncState).length, 1);
+
+		return (deletionConfirmCount > 0 && deletions > deletionConfirmCount) ||
+			(deletionConfirmPercent > 0 && deletions * 100 / syncedFiles > deletionConfirmPercent);
+	}
+
+	private confirmDeletions(deletions: SyncPlanItem[], canRestore: boolean): Promise<DeletionChoice> {
+		return new Promise(resolve => {
+			new DeletionConfirmModal(this.app, deletions, canRestore, resolve).open();
+		});
+	}
+
+	private async validateDriveFolder(): Promise<void> {
+		let folder: RemoteItem | null;
+		try {
+			folder = await this.remote.stat(this.settings.folderId);
+		} catch (error) {
+			if (error instanceof DriveApiError && error.status === 403) {
+				throw new Error('Access denied to Google Drive folder. Please check permissions.');
+			}
+			throw error;
+		}
+
+		if (!folder) {
+			throw new Error(this.settings.driveScope === 'drive.file'
+				? 'Google Drive folder not found. With limited access, only folders created or chosen in settings can be synced.'
+				: 'Google Drive folder not found. Please check your Folder ID in settings.');
+		}
+		if (folder.mimeType !== FOLDER_MIME_TYPE) {
+			throw new Error('The specified ID is not a Google Drive folder.');
+		}
+
+		console.log(`Validated Google Drive folder: ${folder.name}`);
+	}
+
+	private encryptionKeys: EncryptionKeys | null = null;
+	private encryptionKeysFor: { checkFileId: string; passphrase: string } | null = null;
+
+	// Keys for the synced folder, or null when encryption is off
+	private async getEncryptionKeys(): Promise<EncryptionKeys | null> {
+		if (!this.settings.encryption.enabled) {
+			return null;
+		}
+		if (!this.encryptionKeys || this.encryptionKeysFor?.passphrase !== this.credentials.encryptionPassphrase) {
+			await this.prepareEncryption(false);
+		}
+		return this.encryptionKeys;
+	}
+
+	// Name of a vault file or folder as stored on Drive
+	private async getDriveName(name: string): Promise<string> {
+		const keys = await this.getEncryptionKeys();
+		return keys ? encryptName(keys, name) : name;
+	}
+
+	/**
+	 * Checks that the Drive folder is encrypted exactly when encryption is on, and
+	 * derives the keys from the passphrase and the folder's key check. The first
+	 * encrypted sync into an empty folder creates the key check, except in a dry
+	 * run, which uses keys that are thrown away.
+	 */
+	private async prepareEncryption(dryRun: boolean) {
+		const enabled = this.settings.encryption.enabled;
+		const passphrase = this.credentials.encryptionPassphrase;
+		const folderId = this.settings.folderId;
+		const checkFiles = await this.remote.list(folderId, KEY_CHECK_FILE_NAME);
+
+		if (!enabled) {
+			this.encryptionKeys = null;
+			if (checkFiles.length > 0) {
+				throw new Error('This Google Drive folder is encrypted. Turn on encryption and enter its passphrase in settings.');
+			}
+			return;
+		}
+		if (!passphrase) {
+			throw new Error('Encryption is on but no passphrase is set. Enter it in settings.');
+		}
+
+		if (checkFiles.length === 0) {
+			// Files already in the folder would be unreadable next to encrypted ones
+			if ((await this.remote.list(folderId)).length > 0) {
+				throw new Error('Encryption can only be turned on for an empty Google Drive folder. Create a new folder for the encrypted vault and enter its ID in settings.');
+			}
+
+			const salt = randomBytes(16);
+			const keys = await deriveEncryptionKeys(passphrase, salt, SCRYPT_PARAMS);
+			const checkFileId = dryRun ? '' : await this.createKeyCheck(keys, salt);
+			this.encryptionKeys = keys;
+			this.encryptionKeysFor = { checkFileId, passphrase };
+			return;
+		}
+
+		const checkFileId = checkFiles[0].id;
+		const derivedFor = this.encryptionKeysFor;
+		if (this.encryptionKeys && derivedFor && derivedFor.checkFileId === checkFileId && derivedFor.passphrase === passphrase) {
+			return;
+		}
+
+		this.encryptionKeys = null;
+		const keyCheck: KeyCheck = JSON.parse((await this.remote.read(checkFileId)).toString('utf8'));
+		const keys = await deriveEncryptionKeys(passphrase, Buffer.from(keyCheck.salt, 'base64'), keyCheck);
+		let checkText = '';
+		try {
+			checkText = decryptContent(keys, Buffer.from(keyCheck.check, 'base64')).toString('utf8');
+		} catch (error) {
+			// Wrong passphrase, reported below
+		}
+		if (checkText !== KEY_CHECK_TEXT) {
+			throw new Error('The encryption passphrase doesn\'t match the one this Google Drive folder was encrypted with.');
+		}
+
+		this.encryptionKeys = keys;
+		this.encryptionKeysFor = { checkFileId, passphrase };
+	}
+
+	// Uploads the key check to the synced folder and returns its Drive id
+	private async createKeyCheck(keys: EncryptionKeys, salt: Buffer): Promise<string> {
+		const keyCheck: KeyCheck = {
+			version: 1,
+			kdf: 'scrypt',
+			N: SCRYPT_PARAMS.N,
+			r: SCRYPT_PARAMS.r,
+			p: SCRYPT_PARAMS.p,
+			salt: salt.toString('base64'),
+			check: encryptContent(keys, KEY_CHECK_FILE_NAME, Buffer.from(KEY_CHECK_TEXT)).toString('base64'),
+		};
+
+		const item = await this.remote.write({
+			path: KEY_CHECK_FILE_NAME,
+			parentId: this.settings.folderId,
+			name: KEY_CHECK_FILE_NAME,
+			mimeType: 'application/json',
+		}, Buffer.from(JSON.stringify(keyCheck)));
+
+		console.log('Created encryption key check in Google Drive folder');
+		return item.id;
+	}
+
+	private async getRemoteFiles(): Promise<DriveFile[]> {
+		let index = this.settings.remoteIndex;
+
+		if (index && index.rootId === this.settings.folderId) {
+			if (!await this.applyDriveChanges(index)) {
+				console.log('Drive changes token is no longer valid, rescanning folder');
+				index = null;
+			}
+		} else {
+			index = null;
+		}
+
+		if (!index) {
+			index = await this.buildRemoteIndex();
+		}
+
+		this.settings.remoteIndex = index;
+		await this.saveSettings();
+
+		return Object.keys(index.files).map(id => index!.files[id]);
+	}
+
+	private async buildRemoteIndex(): Promise<RemoteIndex> {
+		console.log('Scanning Google Drive folder');
+
+		// Take the token before listing so changes made during the scan are not missed
+		const pageToken = await this.getChangesStartPageToken();
+
+		const tree = await this.listDriveTree(this.settings.folderId, '');
+
+		const index: RemoteIndex = { rootId: this.settings.folderId, pageToken, folders: {}, files: {} };
+		this.addTreeToIndex(index, tree);
+		return index;
+	}
+
+	private async getChangesStartPageToken(): Promise<string> {
+		const start = await this.remote.changes(null);
+		if (!start) {
+			throw new Error('Google Drive did not return a changes token');
+		}
+		return start.cursor;
+	}
+
+	/**
+	 * Brings the index up to date with everything that changed on Drive since its
+	 * page token. Returns false if the token has expired and a full scan is needed.
+	 */
+	private async applyDriveChanges(index: RemoteIndex): Promise<boolean> {
+		const keys = await this.getEncryptionKeys();
+		const result = await this.remote.changes(index.pageToken);
+		if (!result) {
+			return false;
+		}
+		const changes = result.changes;
+
+		if (changes.length > 0) {
+			console.log(`Applying ${changes.length} change${changes.length === 1 ? '' : 's'} from Google Drive`);
+		}
+
+		// Folders first, so files are placed under their current paths
+		const isFolderChange = (change: RemoteChange) =>
+			index.folders[change.id] !== undefined || change.item?.mimeType === FOLDER_MIME_TYPE;
+
+		for (const change of changes.filter(isFolderChange)) {
+			await this.applyFolderChange(index, change, keys);
+		}
+
+		for (const change of changes.filter(change => !isFolderChange(change))) {
+			const item = change.item;
+			const parentPath = item ? this.getIndexedParentPath(index, item) : undefined;
+			const name = item && parentPath !== undefined ? this.decodeDriveName(item.name, keys) : null;
+			if (!item || parentPath === undefined || name === null) {
+				// Deleted, trashed or moved out of the synced folder, or not a file of an encrypted vault
+				delete index.files[change.id];
+				continue;
+			}
+
+			index.files[item.id] = toDriveFile(item, parentPath ? `${parentPath}/${name}` : name, keys !== null);
+		}
+
+		index.pageToken = result.cursor;
+		return true;
+	}
+
+	private async applyFolderChange(index: RemoteIndex, change: RemoteChange, keys: EncryptionKeys | null) {
+		const folderId = change.id;
+		if (folderId === index.rootId) {
+			return; // Root renames don't affect vault paths
+		}
+
+		const oldPath = index.folders[folderId];
+		const item = change.item;
+		const parentPath = item ? this.getIndexedParentPath(index, item) : undefined;
+		const name = item && parentPath !== undefined ? this.decodeDriveName(item.name, keys) : null;
+
+		if (parentPath === undefined || name === null) {
+			// Deleted, trashed or moved out of the synced folder
+			if (oldPath !== undefined) {
+				this.removeIndexedPaths(index, oldPath);
+			}
+			return;
+		}
+
+		const newPath = parentPath ? `${parentPath}/${name}` : name;
+
+		if (oldPath === undefined) {
+			// New folder, or one moved in from elsewhere with its contents, so list what it holds
+			this.addTreeToIndex(index, await this.listDriveTree(folderId, newPath));
+		} else if (oldPath !== newPath) {
+			// Renamed or moved within the synced folder: rewrite every path below it
+			const rebase = (path: string) => path === oldPath || path.startsWith(oldPath + '/') ? newPath + path.substring(oldPath.length) : path;
+
+			for (const id of Object.keys(index.folders)) {
+				index.folders[id] = rebase(index.folders[id]);
+			}
+			for (const id of Object.keys(index.files)) {
+				index.files[id].path = rebase(index.files[id].path);
+			}
+		}
+	}
+
+	// Vault path of the changed item's parent folder, or undefined if it is no longer in the synced tree
+	private getIndexedParentPath(index: RemoteIndex, item: RemoteItem): string | undefined {
+		for (const parentId of item.parents) {
+			if (index.folders[parentId] !== undefined) {
+				return index.folders[parentId];
+			}
+		}
+		return undefined;
+	}
+
+	// Vault name of a Drive item, or null for items in an encrypted folder that aren't part of the vault
+	private decodeDriveName(driveName: string, keys: EncryptionKeys | null): string | null {
+		return keys ? decryptName(keys, driveName) : driveName;
+	}
+
+	private removeIndexedPaths(index: RemoteIndex, folderPath: string) {
+		const isBelow = (path: string) => path === folderPath || path.startsWith(folderPath + '/');
+
+		for (const id of Object.keys(index.folders)) {
+			if (isBelow(index.folders[id])) {
+				delete index.folders[id];
+			}
+		}
+		for (const id of Object.keys(index.files)) {
+			if (isBelow(index.files[id].path)) {
+				delete index.files[id];
+			}
+		}
+	}
+
+	/**
+	 * Lists a Drive folder and everything below it. Folders are listed level by
+	 * level, at most LIST_CONCURRENCY at a time, and every page of each listing is
+	 * followed so nothing is dropped from large folders.
+	 */
+	private async listDriveTree(folderId: string, folderPath: string): Promise<DriveFolder> {
+		const keys = await this.getEncryptionKeys();
+		const root: DriveFolder = { id: folderId, name: folderPath.split('/').pop() || '', path: folderPath, folders: [], files: [] };
+		let level = [root];
+
+		while (level.length > 0) {
+			await mapWithConcurrency(level, LIST_CONCURRENCY, async folder => {
+				const items = await this.remote.list(folder.id);
+
+				for (const item of items) {
+					// Left out in an encrypted folder: the key check and anything not uploaded by the plugin
+					const name = this.decodeDriveName(item.name, keys);
+					if (name === null) {
+						continue;
+					}
+					const itemPath = folder.path ? `${folder.path}/${name}` : name;
+
+					if (item.mimeType === FOLDER_MIME_TYPE) {
+						folder.folders.push({ id: item.id, name, path: itemPath, folders: [], files: [] });
+					} else {
+						folder.files.push(toDriveFile(item, itemPath, keys !== null));
+					}
+				}
+			});
+
+			level = level.reduce((next: DriveFolder[], folder) => next.concat(folder.folders), []);
+		}
+
+		return root;
+	}
+
+	// Adds every folder and file in a listed tree to the index
+	private addTreeToIndex(index: RemoteIndex, folder: DriveFolder) {
+		index.folders[folder.id] = folder.path;
+		for (const file of folder.files) {
+			index.files[file.id] = file;
+		}
+		for (const child of folder.folders) {
+			this.addTreeToIndex(index, child);
+		}
+	}
+
+	/**
+	 * Uploads a vault file, encrypted when encryption is on. The result has Drive's
+	 * metadata plus contentHash, the MD5 of the vault content that was read.
+	 */
+	private async uploadFileToFolder(file: LocalFile, parentFolderId: string, fileId?: string): Promise<RemoteItem & { contentHash: string }> {
+		const keys = await this.getEncryptionKeys();
+		const mimeType = keys ? 'application/octet-stream' : this.getMimeType(file.name);
+		const isBinary = keys !== null || this.isBinaryFile(mimeType);
+
+		let content: Buffer;
+		let contentHash: string;
+
+		if (isBinary) {
+			const arrayBuffer = await this.app.vault.adapter.readBinary(file.path);
+			content = Buffer.from(arrayBuffer);
+			contentHash = createHash('md5').update(content).digest('hex');
+			if (keys) {
+				content = encryptContent(keys, file.path, content);
+			}
+		} else {
+			const textContent = await this.app.vault.adapter.read(file.path);
+			contentHash = createHash('md5').update(textContent).digest('hex');
+			content = Buffer.from(textContent, 'utf8');
+		}
+
+		try {
+			const result = await this.remote.write({
+				path: file.path,
+				id: fileId,
+				parentId: parentFolderId,
+				name: await this.getDriveName(file.name),
+				mimeType,
+			}, content);
+
+			console.log(`Upload result:`, result);
+
+			// Special debugging for PDFs - get actual file size from Drive
+			if (file.name.toLowerCase().endsWith('.pdf')) {
+				console.log(`PDF UPLOAD RESULT: size=${result.size}, id=${result.id}`);
+			}
+
+			return Object.assign({}, result, { contentHash });
+		} catch (uploadError) {
+			console.error(`Upload failed for ${file.name}:`, uploadError);
+			throw uploadError; // Re-throw to be caught by the sync method
+		}
+	}
+
+	private async removeUploadSession(path: string) {
+		if (this.settings.uploadSessions[path]) {
+			delete this.settings.uploadSessions[path];
+			await this.saveSettings();
+		}
+	}
+
+	private async downloadFile(driveFile: DriveFile): Promise<string> {
+		const mimeType = this.getMimeType(driveFile.name);
+		const isBinary = this.isBinaryFile(mimeType);
+
+		const data = await this.fetchDriveContent(driveFile);
+		let content: any;
+
+		if (isBinary) {
+			// For binary files, get the content as array buffer
+			content = toArrayBuffer(data);
+		} else {
+			// For text files, get as text
+			content = data.toString('utf8');
+		}
+
+		console.log(`Downloading file ${driveFile.path}, type: ${mimeType}, binary: ${isBinary}, size: ${driveFile.size} bytes`);
+
+		// Ensure local folder structure exists
+		if (driveFile.path.includes('/')) {
+			const localFolderPath = driveFile.path.substring(0, driveFile.path.lastIndexOf('/'));
+			await this.ensureLocalFolderExists(localFolderPath);
+		}
+
+		await this.snapshotLocalFile(driveFile.path, 'overwrite');
+		if (isBinary) {
+			// For binary files, content is already an ArrayBuffer
+			await this.app.vault.adapter.writeBinary(driveFile.path, content);
+		} else {
+			// For text files, content is already a string
+			await this.app.vault.adapter.write(driveFile.path, content);
+		}
+
+		return createHash('md5').update(isBinary ? data : content).digest('hex');
+	}
+
+	private async ensureLocalFolderExists(folderPath: string) {
+		const segments = folderPath.split('/').filter(s => s.length > 0);
+		let currentPath = '';
+
+		for (const segment of segments) {
+			currentPath = currentPath ? `${currentPath}/${segment}` : segment;
+			try {
+				await this.app.vault.adapter.mkdir(currentPath);
+			} catch (error) {
+				// Folder might already exist, ignore error
+			}
+		}
+	}
+
+	private folderIdCache: Map<string, string> = new Map(); // localPath -> driveFolderId
+
+	private async ensureFolderPathExists(localPath: string): Promise<string> {
+		if (this.folderIdCache.has(localPath)) {
+			return this.folderIdCache.get(localPath)!;
+		}
+
+		if (!localPath || localPath === '.') {
+			return this.settings.folderId; // Root folder
+		}
+
+		// Split path into segments
+		const segments = localPath.split('/').filter(s => s.length > 0);
+		let currentParentId = this.settings.folderId;
+		let currentPath = '';
+
+		for (const segment of segments) {
+			currentPath = currentPath ? `${currentPath}/${segment}` : segment;
+
+			if (this.folderIdCache.has(currentPath)) {
+				currentParentId = this.folderIdCache.get(currentPath)!;
+				continue;
+			}
+
+			// Parallel transfers into the same new folder share one lookup, so it is created only once
+			let lookup = this.folderLookups.get(currentPath);
+			if (!lookup) {
+				lookup = this.findOrCreateDriveFolder(segment, currentParentId, currentPath);
+				this.folderLookups.set(currentPath, lookup);
+			}
+			try {
+				currentParentId = await lookup;
+			} finally {
+				this.folderLookups.delete(currentPath);
+			}
+		}
+
+		return currentParentId;
+	}
+
+	private folderLookups: Map<string, Promise<string>> = new Map(); // localPath -> pending lookup
+
+	// Like ensureFolderPathExists, but null instead of creating a folder that isn't on Drive
+	private async findDriveFolderPath(localPath: string): Promise<string | null> {
+		const segments = localPath.split('/').filter(s => s.length > 0);
+		let currentParentId = this.settings.folderId;
+		let currentPath = '';
+
+		for (const segment of segments) {
+			currentPath = currentPath ? `${currentPath}/${segment}` : segment;
+			const folderId = this.folderIdCache.get(currentPath) || await this.findDriveFolder(await this.getDriveName(segment), currentParentId);
+			if (!folderId) {
+				return null;
+			}
+			this.folderIdCache.set(currentPath, folderId);
+			currentParentId = folderId;
+		}
+
+		return currentParentId;
+	}
+
+	private async findOrCreateDriveFolder(folderName: string, parentId: string, localPath: string): Promise<string> {
+		// Check if folder already exists on Drive
+		const driveName = await this.getDriveName(folderName);
+		const existingFolderId = await this.findDriveFolder(driveName, parentId);
+		if (existingFolderId) {
+			this.folderIdCache.set(localPath, existingFolderId);
+			return existingFolderId;
+		}
+
+		// Create the folder
+		const newFolderId = (await this.remote.mkdir(driveName, parentId)).id;
+		this.folderIdCache.set(localPath, newFolderId);
+		return newFolderId;
+	}
+
+	private async findDriveFolder(folderName: string, parentId: string): Promise<string | null> {
+		// Failing here would otherwise create a duplicate folder, so let errors propagate
+		const folders = (await this.remote.list(parentId, folderName)).filter(item => item.mimeType === FOLDER_MIME_TYPE);
+		return folders.length > 0 ? folders[0].id : null;
+	}
+
+	private async filesHaveIdenticalContent(vaultFile: LocalFile, driveFile: DriveFile, localHash?: string): Promise<boolean> {
+		try {
+			// First check file sizes
+			const vaultSize = vaultFile.stat.size;
+			const driveSize = parseInt(driveFile.size || '0') || 0;
+
+			if (vaultSize !== driveSize) {
+				return false; // Different sizes = different content
+			}
+
+			if (vaultSize === 0) {
+				return true; // Both empty files
+			}
+
+			// Drive reports an MD5 for every uploaded file, so compare against that when present.
+			// For encrypted files it is the ciphertext's, so their content is decrypted and compared
+			const vaultHash = localHash || await this.hashVaultFile(vaultFile);
+			const encrypted = await this.getEncryptionKeys() !== null;
+			if (driveFile.md5Checksum && !encrypted) {
+				return vaultHash === driveFile.md5Checksum;
+			}
+
+			// For binary files or large files, size comparison is sufficient
+			if (!encrypted && this.isBinaryFile(this.getMimeType(vaultFile.name))) {
+				return true; // Same size binary files are likely identical
+			}
+
+			// Download drive file content
+			const driveContent = await this.fetchDriveContent(driveFile);
+			const driveHash = createHash('md5').update(driveContent).digest('hex');
+
+			return vaultHash === driveHash;
+		} catch (error) {
+			console.error('Error comparing file contents:', error);
+			return false; // On error, assume they're different
+		}
+	}
+
+	/**
+	 * Resolves a conflict according to the configured strategy. Returns false if
+	 * it was queued for the user instead.
+	 */
+	private async handleConflict(vaultFile: LocalFile, driveFile: DriveFile, localHash?: string): Promise<ConflictHandling> {
+		switch (this.settings.conflictResolution) {
+			case 'merge':
+				if (this.isMergeable(vaultFile.name)) {
+					return this.mergeConflict(vaultFile, driveFile);
+				}
+				// Binary files can't be merged, fall back to overwriting Drive
+				await this.pushFile(vaultFile, driveFile.id);
+				break;
+			case 'keep-both':
+				await this.keepBothVersions(vaultFile, driveFile);
+				break;
+			case 'overwrite':
+				// Upload vault version (overwrite Drive)
+				await this.pushFile(vaultFile, driveFile.id);
+				break;
+			case 'keep-local':
+				// Keep vault version without uploading, but record both sides as seen so
+				// the conflict is not raised again until one of them changes
+				await this.markInSync(vaultFile, driveFile, localHash);
+				break;
+			case 'keep-remote':
+				// Download Drive version (overwrite vault)
+				await this.pullFile(driveFile);
+				break;
+			case 'ask':
+				// Queue for the conflicts view; the file is not synced again until resolved there
+				await this.queueConflict(vaultFile, driveFile);
+				return { outcome: 'queued', detail: 'queued for review' };
+		}
+		return { outcome: 'done', detail: `resolved with "${this.settings.conflictResolution}"` };
+	}
+
+	/**
+	 * Three-way merges a note against the version last synced. Without that version
+	 * (never synced, or sync state reset) every line would conflict, so both versions
+	 * are kept instead. A merge that leaves conflict markers is logged as needing review.
+	 */
+	private async mergeConflict(vaultFile: LocalFile, driveFile: DriveFile): Promise<ConflictHandling> {
+		const record = this.settings.syncState[vaultFile.path];
+		const base = record ? await this.loadMergeBase(vaultFile.path, record.hash) : null;
+		if (base === null) {
+			console.log(`No merge base for ${vaultFile.path}, keeping both versions`);
+			await this.keepBothVersions(vaultFile, driveFile);
+			return { outcome: 'done', detail: 'no earlier version to merge against, kept both versions' };
+		}
+
+		const local = await this.app.vault.adapter.read(vaultFile.path);
+		const remote = await this.readDriveText(driveFile);
+		const result = mergeText(base, local, remote);
+
+		// The merged text replaces both sides, conflict markers included
+		await this.writeLocalText(vaultFile, result.text);
+		await this.pushFile(vaultFile, driveFile.id);
+
+		if (result.conflicts > 0) {
+			console.log(`Merged ${vaultFile.path} with ${result.conflicts} conflicting section${result.conflicts === 1 ? '' : 's'}`);
+			new Notice(`${vaultFile.path} was changed on both sides. ${result.conflicts} conflicting section${result.conflicts === 1 ? ' needs' : 's need'} review (marked with <<<<<<< and >>>>>>>).`);
+			return { outcome: 'needs-review', detail: `merged, ${result.conflicts} conflicting section${result.conflicts === 1 ? '' : 's'} marked for review` };
+		}
+		console.log(`Merged ${vaultFile.path} without conflicts`);
+		return { outcome: 'done', detail: 'merged without conflicts' };
+	}
+
+	/**
+	 * Saves the Drive version as a conflict copy next to the vault file, then
+	 * uploads the vault version over the Drive file and the copy alongside it.
+	 */
+	private async keepBothVersions(vaultFile: LocalFile, driveFile: DriveFile) {
+		const remoteContent = toArrayBuffer(await this.fetchDriveContent(driveFile));
+		const copyPath = await this.getConflictCopyPath(vaultFile.path);
+		if (this.isConfigPath(copyPath)) {
+			await this.app.vault.adapter.writeBinary(copyPath, remoteContent);
+		} else {
+			await this.app.vault.createBinary(copyPath, remoteContent);
+		}
+		const conflictCopy = await this.getLocalFile(copyPath);
+		if (!conflictCopy) {
+			throw new Error(`Failed to save conflict copy ${copyPath}`);
+		}
+		console.log(`Saved remote version of ${vaultFile.path} as ${conflictCopy.path}`);
+
+		await this.pushFile(vaultFile, driveFile.id);
+		await this.pushFile(conflictCopy);
+
+		new Notice(`${vaultFile.path} was changed on both sides. The Google Drive version was saved as ${conflictCopy.name}`);
+	}
+
+	// "Note.md" -> "Note (conflict <device> <timestamp>).md", in the same folder
+	private async getConflictCopyPath(path: string): Promise<string> {
+		const device = (this.settings.deviceName || hostname()).replace(/[\\/:*?"<>|]/g, '-');
+		return this.getCopyPath(path, `conflict ${device} ${moment().format('YYYY-MM-DD HH-mm-ss')}`);
+	}
+
+	// "Note.md" -> "Note (<suffix>).md", numbered if that is taken
+	private async getCopyPath(path: string, suffix: string): Promise<string> {
+		const folder = path.substring(0, path.lastIndexOf('/') + 1);
+		const name = path.substring(folder.length);
+		const dot = name.lastIndexOf('.');
+		const basename = dot > 0 ? name.substring(0, dot) : name;
+		const extension = dot > 0 ? name.substring(dot) : '';
+
+		let copyPath = `${folder}${basename} (${suffix})${extension}`;
+		for (let n = 2; await this.app.vault.adapter.exists(copyPath); n++) {
+			copyPath = `${folder}${basename} (${suffix} ${n})${extension}`;
+		}
+		return copyPath;
+	}
+
+	// Content of a Drive file, decrypted when encryption is on
+	private async fetchDriveContent(driveFile: DriveFile): Promise<Buffer> {
+		const content = await this.remote.read(driveFile.id);
+		const keys = await this.getEncryptionKeys();
+		return keys ? decryptContent(keys, content) : content;
+	}
+
+	private async readDriveText(driveFile: DriveFile): Promise<string> {
+		return (await this.fetchDriveContent(driveFile)).toString('utf8');
+	}
+
+	private async queueConflict(vaultFile: LocalFile, driveFile: DriveFile) {
+		this.settings.pendingConflicts[vaultFile.path] = {
+			path: vaultFile.path,
+			driveFileId: driveFile.id,
+			detectedAt: Date.now(),
+		};
+		await this.saveSettings();
+	}
+
+	private async dequeueConflict(path: string) {
+		if (this.settings.pendingConflicts[path]) {
+			delete this.settings.pendingConflicts[path];
+			await this.saveSettings();
+			this.refreshConflictView();
+		}
+	}
+
+	public async activateView(viewType: string) {
+		const existing = this.app.workspace.getLeavesOfType(viewType);
+		if (existing.length > 0) {
+			this.app.workspace.revealLeaf(existing[0]);
+			return;
+		}
+
+		const leaf = this.app.workspace.getRightLeaf(false);
+		if (leaf) {
+			await leaf.setViewState({ type: viewType, active: true });
+			this.app.workspace.revealLeaf(leaf);
+		}
+	}
+
+	private refreshConflictView() {
+		for (const leaf of this.app.workspace.getLeavesOfType(CONFLICT_VIEW_TYPE)) {
+			if (leaf.view instanceof ConflictQueueView) {
+				leaf.view.render();
+			}
+		}
+	}
+
+	/**
+	 * Looks up both sides of a queued conflict. Returns null and drops the entry
+	 * if either side is gone, since the next sync can then handle it normally.
+	 */
+	private async loadQueuedConflict(path: string): Promise<{ vaultFile: LocalFile; driveFile: DriveFile } | null> {
+		const conflict = this.settings.pendingConflicts[path];
+		const vaultFile = await this.getLocalFile(path);
+		const driveFile = conflict ? await this.getDriveFileMetadata(conflict.driveFileId, path) : null;
+
+		if (!vaultFile || !driveFile) {
+			await this.dequeueConflict(path);
+			new Notice(`${path} no longer exists on both sides and will be synced normally`);
+			return null;
+		}
+		return { vaultFile, driveFile };
+	}
+
+	private async getDriveFileMetadata(fileId: string, path: string): Promise<DriveFile | null> {
+		const item = await this.remote.stat(fileId);
+		return item ? toDriveFile(item, path, await this.getEncryptionKeys() !== null) : null;
+	}
+
+	public async showDriveHistory(file: TFile) {
+		const record = this.settings.syncState[file.path];
+		if (!this.credentials.refreshToken || !record) {
+			new Notice(`${file.path} hasn't been synced to Google Drive yet`);
+			return;
+		}
+
+		try {
+			const revisions = await this.listDriveRevisions(record.id);
+			const mimeType = this.getMimeType(file.name);
+			new DriveHistoryModal(this.app, this, file, record.id, revisions, mimeType, this.isBinaryFile(mimeType)).open();
+		} catch (error) {
+			console.error(`Failed to list Google Drive history of ${file.path}:`, error);
+			new Notice(`Could not load Google Drive history: ${error.message}`);
+		}
+	}
+
+	// Oldest first, as Drive returns them
+	private async listDriveRevisions(fileId: string): Promise<DriveRevision[]> {
+		const encrypted = await this.getEncryptionKeys() !== null;
+		const revisions: DriveRevision[] = [];
+		let pageToken = '';
+
+		do {
+			let listUrl = `https://www.googleapis.com/drive/v3/files/${fileId}/revisions?pageSize=1000&fields=${encodeURIComponent('nextPageToken,revisions(id,modifiedTime,size,keepForever,lastModifyingUser/displayName)')}`;
+			if (pageToken) {
+				listUrl += `&pageToken=${encodeURIComponent(pageToken)}`;
+			}
+
+			const response = await this.driveFetch(listUrl);
+			if (!response.ok) {
+				throw new DriveApiError(`Failed to list revisions: ${response.status} ${response.statusText}`, response.status);
+			}
+
+			const data = await response.json();
+			for (const item of data.revisions || []) {
+				const size = parseInt(item.size || '0') || 0;
+				revisions.push({
+					id: item.id,
+					modifiedTime: item.modifiedTime,
+					size: encrypted ? Math.max(0, size - ENCRYPTION_OVERHEAD) : size,
+					keepForever: !!item.keepForever,
+					modifiedBy: item.lastModifyingUser?.displayName || '',
+				});
+			}
+			pageToken = data.nextPageToken || '';
+		} while (pageToken);
+
+		return revisions;
+	}
+
+	// Content of a revision, decrypted when encryption is on
+	public async loadDriveRevision(fileId: string, revisionId: string): Promise<ArrayBuffer> {
+		const downloadUrl = `https://www.googleapis.com/drive/v3/files/${fileId}/revisions/${revisionId}?alt=media`;
+		const response = await this.driveFetch(downloadUrl);
+
+		if (!response.ok) {
+			throw new DriveApiError(`Failed to download revision: ${response.status} ${response.statusText}`, response.status);
+		}
+
+		const content = Buffer.from(await response.arrayBuffer());
+		const keys = await this.getEncryptionKeys();
+		return toArrayBuffer(keys ? decryptContent(keys, content) : content);
+	}
+
+	// The restored content is uploaded as a new revision by the next sync
+	public async restoreDriveRevision(file: TFile, fileId: string, revision: DriveRevision) {
+		await this.runOutsideSync(async () => {
+			const content = await this.loadDriveRevision(fileId, revision.id);
+			await this.snapshotLocalFile(file.path, 'overwrite');
+			await this.app.vault.modifyBinary(file, content);
+			new Notice(`Restored ${file.path} to the version of ${moment(revision.modifiedTime).format('YYYY-MM-DD HH:mm')}`);
+		});
+	}
+
+	public async saveDriveRevisionCopy(file: TFile, fileId: string, revision: DriveRevision) {
+		const content = await this.loadDriveRevision(fileId, revision.id);
+		const copyPath = await this.getCopyPath(file.path, `revision ${moment(revision.modifiedTime).format('YYYY-MM-DD HH-mm')}`);
+		const copy = await this.app.vault.createBinary(copyPath, content);
+		new Notice(`Saved the version of ${moment(revision.modifiedTime).format('YYYY-MM-DD HH:mm')} as ${copy.path}`);
+	}
+
+	// Drive otherwise drops old revisions after 30 days or 100 revisions
+	public async setDriveRevisionKeepForever(fileId: string, revision: DriveRevision, keepForever: boolean) {
+		const updateUrl = `https://www.googleapis.com/drive/v3/files/${fileId}/revisions/${revision.id}?fields=keepForever`;
+		const response = await this.driveFetch(updateUrl, {
+			method: 'PATCH',
+			headers: {
+				'Content-Type': 'application/json; charset=UTF-8',
+			},
+			body: JSON.stringify({ keepForever }),
+		});
+
+		if (!response.ok) {
+			throw new DriveApiError(`Failed to update revision: ${response.status} ${response.statusText}`, response.status);
+		}
+		revision.keepForever = !!(await response.json()).keepForever;
+	}
+
+	public async reviewConflict(path: string) {
+		try {
+			const conflict = await this.loadQueuedConflict(path);
+			if (conflict) {
+				this.showConflictModal(conflict.vaultFile, conflict.driveFile);
+			}
+		} catch (error) {
+			console.error(`Failed to open conflict for ${path}:`, error);
+			new Notice(`Failed to open conflict: ${error.message}`);
+		}
+	}
+
+	public async resolveConflicts(paths: string[], choice: ConflictChoice) {
+		await this.runOutsideSync(async () => {
+			let resolved = 0;
+			for (const path of paths) {
+				try {
+					const conflict = await this.loadQueuedConflict(path);
+					if (!conflict) {
+						continue;
+					}
+
+					switch (choice) {
+						case 'keep-local':
+							await this.pushFile(conflict.vaultFile, conflict.driveFile.id);
+							break;
+						case 'use-remote':
+							await this.pullFile(conflict.driveFile);
+							break;
+						case 'keep-both':
+							await this.keepBothVersions(conflict.vaultFile, conflict.driveFile);
+							break;
+					}
+					await this.dequeueConflict(path);
+					resolved++;
+				} catch (error) {
+					console.error(`Failed to resolve conflict for ${path}:`, error);
+					new Notice(`Failed to resolve conflict for ${path}: ${error.message}`);
+				}
+			}
+
+			if (resolved > 0) {
+				new Notice(`Resolved ${resolved} conflict${resolved === 1 ? '' : 's'}`);
+			}
+		});
+	}
+
+	private accessToken: string | null = null;
+
+	// Reused until Drive rejects it, then obtained again with the refresh token
+	private async getAccessToken(): Promise<string> {
+		if (!this.accessToken) {
+			const tokenResponse = await this.getAuthClient().getAccessToken();
+			const accessToken = typeof tokenResponse === 'string' ? tokenResponse : tokenResponse.token;
+			if (!accessToken) {
+				throw new Error('No access token available');
+			}
+			this.accessToken = accessToken;
+		}
+		return this.accessToken;
+	}
+
+	/**
+	 * Sends an authorized request to Google Drive. Rate limits, server errors and
+	 * network failures are retried with backoff, and an expired access token is
+	 * refreshed once. Other error responses are returned for the caller to handle.
+	 */
+	private async driveFetch(url: string, init: DriveRequestInit = {}): Promise<Response> {
+		let tokenRefreshed = false;
+
+		for (let attempt = 0; ; attempt++) {
+			const accessToken = await this.getAccessToken();
+			let response: Response;
+			try {
+				response = await fetch(url, Object.assign({}, init, {
+					headers: Object.assign({}, init.headers, { 'Authorization': `Bearer ${accessToken}` }),
+				}));
+			} catch (error) {
+				if (attempt >= MAX_REQUEST_RETRIES) {
+					throw error;
+				}
+				const delay = getRetryDelay(attempt, null);
+				console.log(`Network error talking to Google Drive, retrying in ${Math.round(delay / 1000)}s:`, error);
+				await sleep(delay);
+				continue;
+			}
+
+			if (response.status === 401 && !tokenRefreshed) {
+				this.accessToken = null;
+				tokenRefreshed = true;
+				continue;
+			}
+
+			if (attempt < MAX_REQUEST_RETRIES && await isRetryableResponse(response)) {
+				const delay = getRetryDelay(attempt, response.headers.get('Retry-After'));
+				console.log(`Google Drive returned ${response.status}, retrying in ${Math.round(delay / 1000)}s`);
+				await sleep(delay);
+				continue;
+			}
+
+			return response;
+		}
+	}
+
+	private showConflictModal(vaultFile: LocalFile, driveFile: DriveFile) {
+		const mimeType = this.getMimeType(vaultFile.name);
+		const modal = new ConflictModal(this.app, vaultFile, driveFile, mimeType, this.isBinaryFile(mimeType),
+			async () => toArrayBuffer(await this.fetchDriveContent(driveFile)),
+			async () => {
+				const record = this.settings.syncState[vaultFile.path];
+				return record ? this.loadMergeBase(vaultFile.path, record.hash) : null;
+			},
+			{
+				keepLocal: () => this.runOutsideSync(async () => {
+					await this.pushFile(vaultFile, driveFile.id);
+					await this.dequeueConflict(vaultFile.path);
+					new Notice(`Kept local version of ${vaultFile.path}`);
+				}),
+				useRemote: () => this.runOutsideSync(async () => {
+					await this.pullFile(driveFile);
+					await this.dequeueConflict(vaultFile.path);
+					new Notice(`Downloaded remote version of ${vaultFile.path}`);
+				}),
+				keepBoth: () => this.runOutsideSync(async () => {
+					await this.keepBothVersions(vaultFile, driveFile);
+					await this.dequeueConflict(vaultFile.path);
+				}),
+				saveMerged: (text: string) => this.runOutsideSync(async () => {
+					await this.writeLocalText(vaultFile, text);
+					await this.pushFile(vaultFile, driveFile.id);
+					await this.dequeueConflict(vaultFile.path);
+					new Notice(`Saved merged version of ${vaultFile.path}`);
+				}),
+			});
+		modal.open();
+	}
+
+	private getMimeType(filename: string): string {
+		const ext = filename.split('.').pop()?.toLowerCase();
+		switch (ext) {
+			case 'md': return 'text/markdown';
+			case 'txt': return 'text/plain';
+			case 'json': return 'application/json';
+			case 'png': return 'image/png';
+			case 'jpg':
+			case 'jpeg': return 'image/jpeg';
+			case 'gif': return 'image/gif';
+			case 'svg': return 'image/svg+xml';
+			case 'pdf': return 'application/pdf';
+			case 'dat': return 'application/octet-stream'; // Obsidian settings file
+			default: return 'application/octet-stream';
+		}
+	}
+
+	private isBinaryFile(mimeType: string): boolean {
+		// Text-based MIME types that should NOT be treated as binary
+		const textTypes = [
+			'text/',
+			'application/json',
+			'application/javascript',
+			'application/xml',
+			'application/x-yaml',
+			'application/x-tex',
+			'application/x-latex'
+		];
+
+		// If it starts with text/ or is a known text format, it's not binary
+		return !textTypes.some(type => mimeType.startsWith(type));
+	}
+
+	private getAuthClient() {
+		const oauth2Client = new google.auth.OAuth2(
+			this.credentials.clientId,
+			this.credentials.clientSecret
+		);
+		oauth2Client.setCredentials({
+			refresh_token: this.credentials.refreshToken
+		});
+		return oauth2Client;
+	}
+
+	/**
+	 * Signs in through the browser with PKCE. The redirect is caught by a listener
+	 * on a free 127.0.0.1 port; where none can be started, or the browser can't
+	 * reach it, the redirect address can be pasted into the dialog instead.
+	 */
+	private async authenticate() {
+		if (!this.credentials.clientId || !this.credentials.clientSecret) {
+			new Notice('Please set Client ID and Client Secret in settings');
+			return;
+		}
+
+		let server: Server | null = null;
+		let redirectUri = FALLBACK_REDIRECT_URI;
+		try {
+			server = await listenOnLoopback();
+			redirectUri = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+		} catch (error) {
+			console.error('Could not start a local listener for the sign-in redirect:', error);
+		}
+
+		const oauth2Client = new google.auth.OAuth2(
+			this.credentials.clientId,
+			this.credentials.clientSecret,
+			redirectUri
+		);
+		const { codeVerifier, codeChallenge } = await oauth2Client.generateCodeVerifierAsync();
+		const state = randomBytes(16).toString('hex');
+
+		const authUrl = oauth2Client.generateAuthUrl({
+			access_type: 'offline',
+			prompt: 'consent', // Google only returns a refresh token on consent
+			scope: [DRIVE_SCOPES[this.settings.driveScope]],
+			state,
+			code_challenge: codeChallenge,
+			code_challenge_method: Auth.CodeChallengeMethod.S256,
+		});
+
+		let finished = false;
+		const stopListening = () => {
+			if (server && server.listening) {
+				server.close();
+			}
+		};
+		const timeoutId = setTimeout(stopListening, AUTH_LISTENER_TIMEOUT);
+
+		const finish = async (getCode: () => string) => {
+			if (finished) {
+				return;
+			}
+			finished = true;
+			clearTimeout(timeoutId);
+			stopListening();
+			modal.close();
+
+			try {
+				const { tokens } = await oauth2Client.getToken({ code: getCode(), codeVerifier });
+				if (tokens.refresh_token) {
+					this.credentials.refreshToken = tokens.refresh_token;
+					this.accessToken = null;
+					this.saveCredentials();
+					new Notice('Authenticated successfully!');
+				} else {
+					new Notice('Failed to get refresh token');
+				}
+			} catch (error) {
+				new Notice('Authentication failed: ' + error.message);
+			}
+		};
+
+		const modal = new AuthModal(this.app, server !== null,
+			(input: string) => finish(() => parseAuthorizationInput(input, state)),
+			() => {
+				clearTimeout(timeoutId);
+				stopListening();
+			});
+
+		server?.on('request', (request, response) => {
+			const params = new URL(request.url || '/', redirectUri).searchParams;
+			if (params.get('state') !== state) {
+				// Not the redirect for this sign-in, so keep waiting for it
+				response.writeHead(400, { 'Content-Type': 'text/plain; charset=utf-8' });
+				response.end('This sign-in link is not valid. Return to Obsidian and try again.');
+				return;
+			}
+
+			response.writeHead(200, { 'Content-Type': 'text/plain; charset=utf-8' });
+			response.end(params.get('error')
+				? 'Google Drive access was not granted. You can close this tab.'
+				: 'Signed in to Google Drive. You can close this tab and return to Obsidian.');
+			finish(() => parseAuthorizationInput(request.url || '', state));
+		});
+
+		modal.open();
+		window.open(authUrl);
+	}
+
+	/**
+	 * Revokes the refresh token with Google, which also ends the access tokens issued
+	 * from it, and forgets it on this device. The client ID and secret are kept.
+	 */
+	private async signOut() {
+		if (!this.credentials.refreshToken) {
+			new Notice('Not signed in to Google Drive');
+			return;
+		}
+		if (this.syncInProgress) {
+			new Notice('A sync is running, sign out when it has finished');
+			return;
+		}
+
+		try {
+			await this.getAuthClient().revokeToken(this.credentials.refreshToken);
+			new Notice('Signed out and revoked Google Drive access');
+		} catch (error) {
+			// Google answers invalid_token for a token that was already revoked
+			console.error('Failed to revoke Google token:', error);
+			new Notice('Signed out on this device, but Google could not confirm revoking access. You can remove it at myaccount.google.com/permissions');
+		}
+
+		this.credentials.refreshToken = '';
+		this.accessToken = null;
+		this.saveCredentials();
+		this.setupAutoSync();
+	}
+
+	// With the drive.file scope, only a folder the plugin created itself can be synced with
+	public async createSyncFolder(): Promise<boolean> {
+		if (!this.credentials.refreshToken) {
+			new Notice('Please authenticate with Google Drive first');
+			return false;
+		}
+
+		try {
+			const folder = await this.remote.mkdir(this.app.vault.getName(), 'root');
+			await this.setFolderId(folder.id);
+			new Notice(`Created "${this.app.vault.getName()}" in My Drive`);
+			return true;
+		} catch (error) {
+			console.error('Failed to create Google Drive folder:', error);
+			new Notice('Failed to create Google Drive folder: ' + error.message);
+			return false;
+		}
+	}
+
+	// Folders in My Drive that the plugin can reach, which with drive.file are the ones it created
+	public async chooseSyncFolder(onChosen: () => void) {
+		if (!this.credentials.refreshToken) {
+			new Notice('Please authenticate with Google Drive first');
+			return;
+		}
+
+		let folders: DriveFolderChoice[];
+		try {
+			folders = (await this.remote.list('root')).filter(item => item.mimeType === FOLDER_MIME_TYPE);
+		} catch (error) {
+			console.error('Failed to list Google Drive folders:', error);
+			new Notice('Failed to list Google Drive folders: ' + error.message);
+			return;
+		}
+		if (folders.length === 0) {
+			new Notice('No folders found. Create one instead.');
+			return;
+		}
+
+		new DriveFolderSuggestModal(this.app, folders, async (folder) => {
+			await this.setFolderId(folder.id);
+			onChosen();
+		}).open();
+	}
+
+
+}
+
+class GoogleDriveSyncSettingTab extends PluginSettingTab {
+	plugin: GoogleDriveSyncPlugin;
+
+	constructor(app: App, plugin: GoogleDriveSyncPlugin) {
+		super(app, plugin);
+		this.plugin = plugin;
+	}
+
+	display(): void {
+		const {containerEl} = this;
+		containerEl.empty();
+
+		containerEl.createEl('h2', {text: 'Google Drive Synced Vault Settings'});
+
+		containerEl.createEl('p', {
+			text: getSafeStorage()
+				? 'The client ID, secret and sign-in are stored on this device only, encrypted with the system keychain, and are never synced.'
+				: 'The client ID, secret and sign-in are stored on this device only and are never synced. The system keychain is not available, so they are not encrypted.',
+			cls: 'setting-item-description',
+		});
+
+		new Setting(containerEl)
+			.setName('Client ID')
+			.setDesc('Your Google OAuth Client ID')
+			.addText(text => text
+				.setPlaceholder('Enter your Client ID')
+				.setValue(this.plugin.credentials.clientId)
+				.onChange((value) => {
+					this.plugin.credentials.clientId = value;
+					this.plugin.saveCredentials();
+				}));
+
+		new Setting(containerEl)
+			.setName('Client Secret')
+			.setDesc('Your Google OAuth Client Secret')
+			.addText(text => text
+				.setPlaceholder('Enter your Client Secret')
+				.setValue(this.plugin.credentials.clientSecret)
+				.onChange((value) => {
+					this.plugin.credentials.clientSecret = value;
+					this.plugin.saveCredentials();
+				}));
+
+		new Setting(containerEl)
+			.setName('Google Drive Access')
+			.setDesc('Limited access only reaches the folder created or chosen below and the files the plugin puts in it. Full access can sync any folder, including one shared with you. Takes effect the next time you authenticate.')
+			.addDropdown(dropdown => dropdown
+				.addOption('drive.file', 'Limited to files created by this plugin (recommended)')
+				.addOption('drive', 'Full Google Drive access')
+				.setValue(this.plugin.settings.driveScope)
+				.onChange(async (value: DriveScope) => {
+					this.plugin.settings.driveScope = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Folder ID')
+			.setDesc('ID of the Google Drive folder to sync with. Create a folder named after the vault in My Drive, or choose one the plugin can reach.')
+			.addText(text => {
+				text.setPlaceholder('Enter Folder ID')
+					.setValue(this.plugin.settings.folderId);
+				// Applied when the field loses focus rather than on every keystroke, since a new folder clears the sync state
+				text.inputEl.addEventListener('blur', async () => {
+					const value = text.getValue().trim();
+					if (value !== this.plugin.settings.folderId) {
+						await this.plugin.setFolderId(value);
+					}
+				});
+			})
+			.addButton(button => button
+				.setButtonText('Create')
+				.onClick(async () => {
+					if (await this.plugin.createSyncFolder()) {
+						this.display();
+					}
+				}))
+			.addButton(button => button
+				.setButtonText('Choose')
+				.onClick(() => {
+					this.plugin.chooseSyncFolder(() => this.display());
+				}));
+
+		new Setting(containerEl)
+			.setName('Sync Interval (minutes)')
+			.setDesc('How often to sync automatically (0 to disable)')
+			.addSlider(slider => slider
+				.setLimits(5, 120, 5)
+				.setValue(this.plugin.settings.syncInterval)
+				.setDynamicTooltip()
+				.onChange(async (value) => {
+					this.plugin.settings.syncInterval = value;
+					await this.plugin.saveSettings();
+					this.plugin.setupAutoSync();
+				}));
+
+		new Setting(containerEl)
+			.setName('Auto Sync')
+			.setDesc('Automatically sync on file changes and at intervals')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.autoSync)
+				.onChange(async (value) => {
+					this.plugin.settings.autoSync = value;
+					await this.plugin.saveSettings();
+					this.plugin.setupAutoSync();
+				}));
+
+		new Setting(containerEl)
+			.setName('Conflict Resolution')
+			.setDesc('How to handle conflicts when files are modified in both places')
+			.addDropdown(dropdown => dropdown
+				.addOption('overwrite', 'Overwrite with local (recommended)')
+				.addOption('keep-local', 'Keep local version')
+				.addOption('keep-remote', 'Keep remote version')
+				.addOption('ask', 'Ask (queue for review)')
+				.addOption('merge', 'Merge text files, overwrite others')
+				.addOption('keep-both', 'Keep both (save a conflict copy)')
+				.setValue(this.plugin.settings.conflictResolution)
+				.onChange(async (value: ConflictResolution) => {
+					this.plugin.settings.conflictResolution = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Exclude Patterns')
+			.setDesc(`Files to leave out of sync, one gitignore-style pattern per line (e.g. "Attachments/", "*.mp4", "!keep.mp4"). Patterns in a ${IGNORE_FILE_NAME} file at the vault root are applied too. Excluded files are never uploaded, downloaded or deleted.`)
+			.addTextArea(text => text
+				.setPlaceholder('Attachments/\n*.tmp')
+				.setValue(this.plugin.settings.excludePatterns)
+				.onChange(async (value) => {
+					this.plugin.settings.excludePatterns = value;
+					await this.plugin.saveSettings();
+				}))
+			.addButton(button => button
+				.setButtonText('Preview')
+				.onClick(() => {
+					this.plugin.previewIgnoreRules();
+				}));
+
+		new Setting(containerEl)
+			.setName('Parallel Transfers')
+			.setDesc('Number of uploads, downloads and deletions to run at the same time')
+			.addSlider(slider => slider
+				.setLimits(1, 8, 1)
+				.setValue(this.plugin.settings.transferConcurrency)
+				.setDynamicTooltip()
+				.onChange(async (value) => {
+					this.plugin.settings.transferConcurrency = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Confirm Deletions Above (files)')
+			.setDesc('Pause and ask before a sync deletes more than this many files (0 for no limit)')
+			.addText(text => text
+				.setPlaceholder('20')
+				.setValue(String(this.plugin.settings.deletionConfirmCount))
+				.onChange(async (value) => {
+					const count = parseInt(value);
+					this.plugin.settings.deletionConfirmCount = isNaN(count) || count < 0 ? 0 : count;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Confirm Deletions Above (%)')
+			.setDesc('Pause and ask before a sync deletes more than this percentage of synced files (0 for no limit)')
+			.addSlider(slider => slider
+				.setLimits(0, 100, 5)
+				.setValue(this.plugin.settings.deletionConfirmPercent)
+				.setDynamicTooltip()
+				.onChange(async (value) => {
+					this.plugin.settings.deletionConfirmPercent = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Snapshot Retention (days)')
+			.setDesc('Keep a local copy of files the sync overwrites or deletes for this many days, restorable with "Restore from Sync Snapshot" (0 turns snapshots off)')
+			.addText(text => text
+				.setPlaceholder('30')
+				.setValue(String(this.plugin.settings.snapshotRetentionDays))
+				.onChange(async (value) => {
+					const days = parseInt(value);
+					this.plugin.settings.snapshotRetentionDays = isNaN(days) || days < 0 ? 0 : days;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Snapshot Storage Limit (MB)')
+			.setDesc('Drop the oldest snapshots once they take up more than this (0 for no limit)')
+			.addText(text => text
+				.setPlaceholder('500')
+				.setValue(String(this.plugin.settings.snapshotMaxSize))
+				.onChange(async (value) => {
+					const size = parseInt(value);
+					this.plugin.settings.snapshotMaxSize = isNaN(size) || size < 0 ? 0 : size;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Device Name')
+			.setDesc('Name used in conflict copies created on this device (defaults to the computer name)')
+			.addText(text => text
+				.setPlaceholder(hostname())
+				.setValue(this.plugin.settings.deviceName)
+				.onChange(async (value) => {
+					this.plugin.settings.deviceName = value;
+					await this.plugin.saveSettings();
+				}));
+
+		containerEl.createEl('h3', { text: 'Google Docs, Sheets and Slides' });
+		containerEl.createEl('p', {
+			text: 'Native Google files can\'t be synced as they are, so they are exported into the vault next to where they are on Google Drive and exported again when they change. Exports are never uploaded: edits made to them in the vault are replaced on the next export.',
+			cls: 'setting-item-description',
+		});
+
+		const exportTypes: [keyof GoogleExportFormats, string, Record<string, string>][] = [
+			['document', 'Google Docs', { md: 'Markdown (.md)', docx: 'Word (.docx)', pdf: 'PDF' }],
+			['spreadsheet', 'Google Sheets', { csv: 'CSV, first sheet only (.csv)', xlsx: 'Excel (.xlsx)', pdf: 'PDF' }],
+			['presentation', 'Google Slides', { pdf: 'PDF', pptx: 'PowerPoint (.pptx)' }],
+		];
+		for (const [type, name, formats] of exportTypes) {
+			new Setting(containerEl)
+				.setName(name)
+				.addDropdown(dropdown => dropdown
+					.addOptions(formats)
+					.addOption('', 'Don\'t export')
+					.setValue(this.plugin.settings.googleExportFormats[type])
+					.onChange(async (value) => {
+						this.plugin.settings.googleExportFormats[type] = value;
+						await this.plugin.saveSettings();
+					}));
+		}
+
+		containerEl.createEl('h3', { text: 'Encryption' });
+		containerEl.createEl('p', {
+			text: 'Encrypt file contents and names before they leave this device, with keys derived from a passphrase. Encryption can only be turned on for an empty Google Drive folder, and every device syncing with it needs the same passphrase. The passphrase can\'t be recovered: without it, the files on Google Drive can\'t be read.',
+			cls: 'setting-item-description',
+		});
+
+		new Setting(containerEl)
+			.setName('Encrypt Files on Google Drive')
+			.setDesc('Turning this on or off starts over as with a new folder')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.encryption.enabled)
+				.onChange(async (value) => {
+					if (value !== this.plugin.settings.encryption.enabled) {
+						this.plugin.resetSyncState();
+					}
+					this.plugin.settings.encryption.enabled = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Encryption Passphrase')
+			.setDesc('Stored on this device only, with the client ID and secret, and never synced')
+			.addText(text => {
+				text.inputEl.type = 'password';
+				text
+					.setValue(this.plugin.credentials.encryptionPassphrase)
+					.onChange((value) => {
+						this.plugin.credentials.encryptionPassphrase = value;
+						this.plugin.saveCredentials();
+					});
+			});
+
+		const configDir = this.app.vault.configDir;
+		containerEl.createEl('h3', { text: 'Config Folder Sync' });
+		containerEl.createEl('p', {
+			text: `Choose which parts of ${configDir} to sync. workspace.json and workspace-mobile.json are never synced, and neither are this plugin's settings and sync state. Changes to synced settings take effect after restarting Obsidian.`,
+			cls: 'setting-item-description',
+		});
+
+		const categories: [keyof ConfigSyncSettings, string, string][] = [
+			['core', 'Core Settings', 'Top-level settings files such as app.json, appearance.json and core-plugins.json'],
+			['communityPlugins', 'Enabled Community Plugins', `${configDir}/community-plugins.json, the list of enabled plugins`],
+			['plugins', 'Community Plugin Code and Data', `Everything in ${configDir}/plugins`],
+			['themes', 'Themes', `${configDir}/themes`],
+			['snippets', 'CSS Snippets', `${configDir}/snippets`],
+			['hotkeys', 'Hotkeys', `${configDir}/hotkeys.json`],
+		];
+		for (const [key, name, desc] of categories) {
+			new Setting(containerEl)
+				.setName(name)
+				.setDesc(desc)
+				.addToggle(toggle => toggle
+					.setValue(this.plugin.settings.configSync[key])
+					.onChange(async (value) => {
+						this.plugin.settings.configSync[key] = value;
+						await this.plugin.saveSettings();
+					}));
+		}
+	}
+}
+
+class AuthModal extends Modal {
+	listening: boolean;
+	onSubmit: (input: string) => void;
+	onCancel: () => void;
+	submitted = false;
+
+	constructor(app: App, listening: boolean, onSubmit: (input: string) => void, onCancel: () => void) {
+		super(app);
+		this.listening = listening;
+		this.onSubmit = onSubmit;
+		this.onCancel = onCancel;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.createEl('h2', { text: 'Sign in to Google Drive' });
+		if (this.listening) {
+			contentEl.createEl('p', { text: 'Finish signing in in the browser window that just opened. This dialog closes by itself once you have.' });
+			contentEl.createEl('p', { text: 'If the browser ends up on a page that can\'t be reached, copy its address from the address bar and paste it here:' });
+		} else {
+			contentEl.createEl('p', { text: 'Sign in in the browser window that just opened. It will end on a page that can\'t be reached; copy that page\'s address from the address bar and paste it here:' });
+		}
+
+		const input = contentEl.createEl('input', { type: 'text', cls: 'auth-modal-input' });
+
+		const button = contentEl.createEl('button', { text: 'Submit' });
+		button.onclick = () => {
+			this.submitted = true;
+			this.onSubmit(input.value);
+		};
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+		if (!this.submitted) {
+			this.onCancel();
+		}
+	}
+}
+
+class DriveFolderSuggestModal extends FuzzySuggestModal<DriveFolderChoice> {
+	folders: DriveFolderChoice[];
+	onChoose: (folder: DriveFolderChoice) => void;
 
-			// Log to console for debugging
-			let logMessage: string;
-			if (uploaded === 0 && downloaded === 0 && conflicts === 0 && deleted === 0) {
-				logMessage = "Sync complete: No changes detected";
-			} else {
-				logMessage = `Sync complete: ${uploaded} uploaded, ${downloaded} downloaded`;
-				if (deleted > 0) {
-					logMessage += `, ${deleted} deleted`;
-				}
-				if (conflicts > 0) {
-					logMessage += `, ${conflicts} conflict${conflicts === 1 ? '' : 's'} resolved`;
-				}
-			}
-			console.log(logMessage);
+	constructor(app: App, folders: DriveFolderChoice[], onChoose: (folder: DriveFolderChoice) => void) {
+		super(app);
+		this.folders = folders;
+		this.onChoose = onChoose;
+		this.setPlaceholder('Choose a Google Drive folder to sync with');
+	}
 
-		} catch (error) {
-			console.error('Sync failed:', error);
-			this.stopSyncAnimation();
-			this.updateStatusBar('Sync failed');
-			// Still show a notice for errors since they're important
-			new Notice('Sync failed: ' + error.message);
-		}
+	getItems(): DriveFolderChoice[] {
+		return this.folders;
 	}
 
-	private async validateDriveFolder(accessToken: string): Promise<void> {
-		const folderUrl = `https://www.googleapis.com/drive/v3/files/${this.settings.folderId}?fields=id,name,mimeType`;
-		const response = await fetch(folderUrl, {
-			headers: {
-				'Authorization': `Bearer ${accessToken}`,
-			},
-		});
+	getItemText(folder: DriveFolderChoice): string {
+		return folder.name;
+	}
 
-		if (!response.ok) {
-			if (response.status === 404) {
-				throw new Error('Google Drive folder not found. Please check your Folder ID in settings.');
-			} else if (response.status === 403) {
-				throw new Error('Access denied to Google Drive folder. Please check permissions.');
-			} else {
-				throw new Error(`Failed to access Google Drive folder: ${response.status} ${response.statusText}`);
+	onChooseItem(folder: DriveFolderChoice) {
+		this.onChoose(folder);
+	}
+}
+
+interface ConflictActions {
+	keepLocal: () => Promise<void>;
+	useRemote: () => Promise<void>;
+	keepBoth: () => Promise<void>;
+	saveMerged: (text: string) => Promise<void>;
+}
+
+// Side-by-side line diff of two versions of a text file
+function renderLineDiff(containerEl: HTMLElement, titles: [string, string], leftText: string, rightText: string) {
+	const diffEl = containerEl.createDiv({ cls: 'conflict-diff' });
+	diffEl.createDiv({ cls: 'conflict-diff-header', text: titles[0] });
+	diffEl.createDiv({ cls: 'conflict-diff-header', text: titles[1] });
+
+	for (const row of diffLines(leftText.split('\n'), rightText.split('\n'))) {
+		for (const line of [row.left, row.right]) {
+			const lineEl = diffEl.createDiv({ cls: 'conflict-diff-line', text: line ?? '' });
+			if (line === null) {
+				lineEl.addClass('conflict-diff-empty');
+			} else if (row.changed) {
+				lineEl.addClass('conflict-diff-changed');
 			}
 		}
+	}
+}
 
-		const folderData = await response.json();
-		if (folderData.mimeType !== 'application/vnd.google-apps.folder') {
-			throw new Error('The specified ID is not a Google Drive folder.');
+// Sizes, hashes and for images a preview of two versions of a binary file. Preview
+// URLs are added to objectUrls for the caller to revoke
+function renderBinaryComparison(containerEl: HTMLElement, titles: [string, string], left: ArrayBuffer, right: ArrayBuffer, mimeType: string, objectUrls: string[]) {
+	const tableEl = containerEl.createEl('table', { cls: 'conflict-binary' });
+	const headerRow = tableEl.createEl('tr');
+	headerRow.createEl('th');
+	headerRow.createEl('th', { text: titles[0] });
+	headerRow.createEl('th', { text: titles[1] });
+
+	const sizeRow = tableEl.createEl('tr');
+	sizeRow.createEl('td', { text: 'Size' });
+	sizeRow.createEl('td', { text: formatBytes(left.byteLength) });
+	sizeRow.createEl('td', { text: formatBytes(right.byteLength) });
+
+	const hashRow = tableEl.createEl('tr');
+	hashRow.createEl('td', { text: 'MD5' });
+	hashRow.createEl('td', { text: createHash('md5').update(Buffer.from(left)).digest('hex') });
+	hashRow.createEl('td', { text: createHash('md5').update(Buffer.from(right)).digest('hex') });
+
+	if (mimeType.startsWith('image/')) {
+		const previewRow = tableEl.createEl('tr');
+		previewRow.createEl('td', { text: 'Preview' });
+		for (const content of [left, right]) {
+			const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+			objectUrls.push(url);
+			previewRow.createEl('td').createEl('img', { cls: 'conflict-preview', attr: { src: url } });
 		}
+	}
+}
 
-		console.log(`Validated Google Drive folder: ${folderData.name}`);
+class ConflictModal extends Modal {
+	vaultFile: LocalFile;
+	driveFile: DriveFile;
+	mimeType: string;
+	isBinary: boolean;
+	loadRemote: () => Promise<ArrayBuffer>;
+	loadBase: () => Promise<string | null>;
+	actions: ConflictActions;
+	objectUrls: string[] = [];
+
+	constructor(app: App, vaultFile: LocalFile, driveFile: DriveFile, mimeType: string, isBinary: boolean,
+		loadRemote: () => Promise<ArrayBuffer>, loadBase: () => Promise<string | null>, actions: ConflictActions) {
+		super(app);
+		this.vaultFile = vaultFile;
+		this.driveFile = driveFile;
+		this.mimeType = mimeType;
+		this.isBinary = isBinary;
+		this.loadRemote = loadRemote;
+		this.loadBase = loadBase;
+		this.actions = actions;
 	}
 
-	private async getDriveFilesRecursive(accessToken: string): Promise<any[]> {
-		const allFiles: any[] = [];
-		const folderPathMap = new Map<string, string>(); // folderId -> path
+	async onOpen() {
+		const { contentEl } = this;
+		this.modalEl.addClass('conflict-modal');
+		contentEl.createEl('h2', { text: '⚠ Sync Conflict Detected' });
 
-		// Start with root folder
-		folderPathMap.set(this.settings.folderId, '');
+		contentEl.createEl('p', {
+			text: `The file \"${this.vaultFile.path}\" has been modified in both Obsidian and Google Drive since the last sync.`
+		});
 
-		// Recursively get all files and folders
-		await this.getDriveItemsRecursive(this.settings.folderId, '', accessToken, allFiles, folderPathMap);
+		const localTime = new Date(this.vaultFile.stat.mtime).toLocaleString();
+		const remoteTime = new Date(this.driveFile.modifiedTime).toLocaleString();
+		const remoteSize = parseInt(this.driveFile.size || '0') || 0;
 
-		return allFiles;
-	}
+		contentEl.createEl('p', { text: `Local version: Modified ${localTime}, ${formatBytes(this.vaultFile.stat.size)}` });
+		contentEl.createEl('p', { text: `Remote version: Modified ${remoteTime}, ${formatBytes(remoteSize)}` });
 
-	private async getDriveItemsRecursive(folderId: string, currentPath: string, accessToken: string, allFiles: any[], folderPathMap: Map<string, string>) {
-		// Get all items (files and folders) in this folder
-		const listUrl = `https://www.googleapis.com/drive/v3/files?q='${folderId}'%20in%20parents%20and%20trashed=false&fields=files(id,name,modifiedTime,size,mimeType)`;
-		const response = await fetch(listUrl, {
-			headers: {
-				'Authorization': `Bearer ${accessToken}`,
-			},
-		});
+		const comparisonEl = contentEl.createDiv({ cls: 'conflict-comparison' });
+		comparisonEl.createEl('p', { text: 'Loading Google Drive version...' });
 
-		if (!response.ok) {
-			throw new Error(`Failed to list items in folder ${folderId}: ${response.status} ${response.statusText}`);
-		}
+		contentEl.createEl('p', { text: 'Choose which version to keep:' });
 
-		const data = await response.json();
-		const items = data.files || [];
+		const buttonContainer = contentEl.createDiv({ cls: 'conflict-buttons' });
 
-		for (const item of items) {
-			const itemPath = currentPath ? `${currentPath}/${item.name}` : item.name;
+		const keepLocalBtn = buttonContainer.createEl('button', { text: 'Keep Local', cls: 'mod-cta' });
+		keepLocalBtn.onclick = () => this.runAction(this.actions.keepLocal);
 
-			if (item.mimeType === 'application/vnd.google-apps.folder') {
-				// It's a folder - add to path map and recurse
-				folderPathMap.set(item.id, itemPath);
-				await this.getDriveItemsRecursive(item.id, itemPath, accessToken, allFiles, folderPathMap);
-			} else {
-				// It's a file - add to results with full path
-				item.path = itemPath;
-				allFiles.push(item);
-			}
+		const useRemoteBtn = buttonContainer.createEl('button', { text: 'Use Remote', cls: 'mod-cta' });
+		useRemoteBtn.onclick = () => this.runAction(this.actions.useRemote);
+
+		const keepBothBtn = buttonContainer.createEl('button', { text: 'Keep Both' });
+		keepBothBtn.onclick = () => this.runAction(this.actions.keepBoth);
+
+		let editMergedBtn: HTMLButtonElement | null = null;
+		if (!this.isBinary) {
+			editMergedBtn = buttonContainer.createEl('button', { text: 'Edit Merged Result' });
+			editMergedBtn.disabled = true;
 		}
-	}
 
-	private async getDriveFiles(accessToken: string): Promise<any[]> {
-		const listUrl = `https://www.googleapis.com/drive/v3/files?q='${this.settings.folderId}'%20in%20parents%20and%20trashed=false&fields=files(id,name,modifiedTime,size)`;
-		const response = await fetch(listUrl, {
-			headers: {
-				'Authorization': `Bearer ${accessToken}`,
-			},
-		});
+		let local: ArrayBuffer, remote: ArrayBuffer;
+		try {
+			[local, remote] = await Promise.all([this.app.vault.adapter.readBinary(this.vaultFile.path), this.loadRemote()]);
+		} catch (error) {
+			comparisonEl.empty();
+			comparisonEl.createEl('p', { text: `Could not load the Google Drive version: ${error.message}` });
+			return;
+		}
 
-		if (!response.ok) {
-			throw new Error(`Failed to list files: ${response.status} ${response.statusText}`);
+		comparisonEl.empty();
+		if (this.isBinary) {
+			renderBinaryComparison(comparisonEl, ['Local', 'Google Drive'], local, remote, this.mimeType, this.objectUrls);
+			return;
 		}
 
-		const data = await response.json();
-		return data.files || [];
+		const decoder = new TextDecoder();
+		const localText = decoder.decode(local);
+		const remoteText = decoder.decode(remote);
+		renderLineDiff(comparisonEl, ['Local', 'Google Drive'], localText, remoteText);
+
+		if (editMergedBtn) {
+			editMergedBtn.disabled = false;
+			editMergedBtn.onclick = async () => {
+				const base = await this.loadBase();
+				this.renderMergeEditor(comparisonEl, mergeText(base || '', localText, remoteText).text);
+			};
+		}
 	}
 
-	private async uploadFileToFolder(drive: any, file: TFile, accessToken: string, parentFolderId: string, fileId?: string) {
-		const mimeType = this.getMimeType(file.name);
-		const isBinary = this.isBinaryFile(mimeType);
+	private renderMergeEditor(containerEl: HTMLElement, mergedText: string) {
+		containerEl.empty();
+		containerEl.createEl('p', { text: 'Edit the merged note. Sections changed on both sides are marked with <<<<<<< and >>>>>>>.' });
 
-		let binaryContent: Buffer | null = null;
-		let textContent: string | null = null;
+		const editor = containerEl.createEl('textarea', { cls: 'conflict-merge-editor' });
+		editor.value = mergedText;
 
-		if (isBinary) {
-			const arrayBuffer = await this.app.vault.readBinary(file);
-			binaryContent = Buffer.from(arrayBuffer);
-		} else {
-			textContent = await this.app.vault.read(file);
-		}
+		const saveBtn = containerEl.createEl('button', { text: 'Save Merged Result', cls: 'mod-cta' });
+		saveBtn.onclick = () => this.runAction(() => this.actions.saveMerged(editor.value));
+	}
 
+	private async runAction(action: () => Promise<void>) {
+		this.close();
 		try {
-			let result;
-
-			if (fileId) {
-				// Update existing file
-				const uploadUrl = `https://www.googleapis.com/upload/drive/v3/files/${fileId}?uploadType=media`;
-				const uploadResponse = await fetch(uploadUrl, {
-					method: 'PATCH',
-					headers: {
-						'Authorization': `Bearer ${accessToken}`,
-						'Content-Type': mimeType,
-					},
-					body: isBinary ? binaryContent! : textContent!,
-				});
+			await action();
+		} catch (error) {
+			console.error(`Conflict resolution failed for ${this.vaultFile.path}:`, error);
+			new Notice(`Conflict resolution failed: ${error.message}`);
+		}
+	}
 
-				if (!uploadResponse.ok) {
-					throw new Error(`Upload failed: ${uploadResponse.status} ${uploadResponse.statusText}`);
-				}
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+		this.objectUrls.forEach(url => URL.revokeObjectURL(url));
+		this.objectUrls = [];
+	}
+}
 
-					result = await uploadResponse.json();
-				} else {
-				// Create new file with multipart
-				const boundary = 'boundary_' + Math.random().toString(36).substr(2);
-				const metadata = {
-					name: file.name,
-					parents: [parentFolderId], // Use the specified parent folder
-				};
-
-				const metadataPart = '--' + boundary + '\r\n' +
-					'Content-Type: application/json; charset=UTF-8\r\n\r\n' +
-					JSON.stringify(metadata) + '\r\n';
-				const contentPartHeader = '--' + boundary + '\r\n' +
-					'Content-Type: ' + mimeType + '\r\n\r\n';
-				const endPart = '\r\n--' + boundary + '--';
-
-				const metadataBuffer = Buffer.from(metadataPart, 'utf8');
-				const headerBuffer = Buffer.from(contentPartHeader, 'utf8');
-				const endBuffer = Buffer.from(endPart, 'utf8');
-				const contentBuffer = isBinary ? binaryContent! : Buffer.from(textContent!, 'utf8');
-
-				const body = Buffer.concat([metadataBuffer, headerBuffer, contentBuffer, endBuffer]);
-
-				const uploadUrl = `https://www.googleapis.com/upload/drive/v3/files?uploadType=multipart`;
-				const uploadResponse = await fetch(uploadUrl, {
-					method: 'POST',
-					headers: {
-						'Authorization': `Bearer ${accessToken}`,
-						'Content-Type': `multipart/related; boundary=${boundary}`,
-					},
-					body: body,
-				});
+class DriveHistoryModal extends Modal {
+	plugin: GoogleDriveSyncPlugin;
+	file: TFile;
+	fileId: string;
+	revisions: DriveRevision[];
+	mimeType: string;
+	isBinary: boolean;
+	listEl: HTMLElement;
+	comparisonEl: HTMLElement;
+	objectUrls: string[] = [];
+
+	constructor(app: App, plugin: GoogleDriveSyncPlugin, file: TFile, fileId: string, revisions: DriveRevision[], mimeType: string, isBinary: boolean) {
+		super(app);
+		this.plugin = plugin;
+		this.file = file;
+		this.fileId = fileId;
+		this.revisions = revisions;
+		this.mimeType = mimeType;
+		this.isBinary = isBinary;
+	}
 
-				if (!uploadResponse.ok) {
-					throw new Error(`Upload failed: ${uploadResponse.status} ${uploadResponse.statusText}`);
-				}
+	onOpen() {
+		const { contentEl } = this;
+		this.modalEl.addClass('conflict-modal');
+		contentEl.createEl('h2', { text: 'Google Drive History' });
+		contentEl.createEl('p', {
+			text: `${this.revisions.length} version${this.revisions.length === 1 ? '' : 's'} of ${this.file.path} are stored on Google Drive. Drive removes versions older than 30 days or beyond the latest 100 unless they are kept forever.`
+		});
 
-				result = await uploadResponse.json();
-			}
+		this.listEl = contentEl.createDiv({ cls: 'drive-history-list' });
+		this.comparisonEl = contentEl.createDiv({ cls: 'conflict-comparison' });
+		this.renderRevisions();
+	}
 
-			console.log(`Upload result:`, result);
+	private renderRevisions() {
+		this.listEl.empty();
 
-			// Special debugging for PDFs - get actual file size from Drive
-			if (file.name.toLowerCase().endsWith('.pdf')) {
-				console.log(`PDF UPLOAD RESULT: size=${result?.size}, id=${result?.id}`);
+		for (const revision of this.revisions.slice().reverse()) {
+			const itemEl = this.listEl.createDiv({ cls: 'drive-history-revision' });
+			const details = [moment(revision.modifiedTime).format('YYYY-MM-DD HH:mm:ss'), formatBytes(revision.size)];
+			if (revision.modifiedBy) {
+				details.push(revision.modifiedBy);
 			}
-		} catch (uploadError) {
-			console.error(`Upload failed for ${file.name}:`, uploadError);
-			throw uploadError; // Re-throw to be caught by the sync method
+			if (revision.keepForever) {
+				details.push('kept forever');
+			}
+			itemEl.createDiv({ cls: 'drive-history-details', text: details.join(' · ') });
+
+			const buttonContainer = itemEl.createDiv({ cls: 'drive-history-buttons' });
+			buttonContainer.createEl('button', { text: this.isBinary ? 'Compare' : 'Diff' }).onclick = () => this.compare(revision);
+			buttonContainer.createEl('button', { text: 'Restore' }).onclick = () => this.runAction(() => this.plugin.restoreDriveRevision(this.file, this.fileId, revision));
+			buttonContainer.createEl('button', { text: 'Save as Copy' }).onclick = () => this.runAction(() => this.plugin.saveDriveRevisionCopy(this.file, this.fileId, revision));
+
+			const keepBtn = buttonContainer.createEl('button', { text: revision.keepForever ? 'Don\'t Keep Forever' : 'Keep Forever' });
+			keepBtn.onclick = async () => {
+				keepBtn.disabled = true;
+				try {
+					await this.plugin.setDriveRevisionKeepForever(this.fileId, revision, !revision.keepForever);
+					this.renderRevisions();
+				} catch (error) {
+					keepBtn.disabled = false;
+					new Notice(`Could not update the revision: ${error.message}`);
+				}
+			};
 		}
 	}
 
-	private async uploadFile(drive: any, file: TFile, accessToken: string, fileId?: string) {
-		const mimeType = this.getMimeType(file.name);
-		const isBinary = this.isBinaryFile(mimeType);
-
-		let binaryContent: Buffer | null = null;
-		let textContent: string | null = null;
+	private async compare(revision: DriveRevision) {
+		const titles: [string, string] = ['Current', moment(revision.modifiedTime).format('YYYY-MM-DD HH:mm')];
+		this.comparisonEl.empty();
+		this.comparisonEl.createEl('p', { text: 'Loading Google Drive version...' });
 
-		if (isBinary) {
-			console.log(`Reading binary file ${file.name}, vault size: ${file.stat.size} bytes`);
-			const arrayBuffer = await this.app.vault.readBinary(file);
-			console.log(`ArrayBuffer length: ${arrayBuffer.byteLength} bytes`);
-			binaryContent = Buffer.from(arrayBuffer);
-			console.log(`Prepared binary content: ${binaryContent.length} bytes`);
+		let current: ArrayBuffer, stored: ArrayBuffer;
+		try {
+			[current, stored] = await Promise.all([this.app.vault.readBinary(this.file), this.plugin.loadDriveRevision(this.fileId, revision.id)]);
+		} catch (error) {
+			this.comparisonEl.empty();
+			this.comparisonEl.createEl('p', { text: `Could not load the Google Drive version: ${error.message}` });
+			return;
+		}
 
-			// Special debugging for PDFs
-			if (file.name.toLowerCase().endsWith('.pdf')) {
-				console.log(`PDF DEBUG: vault size=${file.stat.size}, arrayBuffer=${arrayBuffer.byteLength}, buffer=${binaryContent.length}`);
-				if (binaryContent.length === 0) {
-					console.error(`PDF ERROR: Buffer is empty for ${file.name}!`);
-				}
-			}
+		this.comparisonEl.empty();
+		if (this.isBinary) {
+			renderBinaryComparison(this.comparisonEl, titles, current, stored, this.mimeType, this.objectUrls);
 		} else {
-			textContent = await this.app.vault.read(file);
-			console.log(`Prepared text content: ${textContent.length} characters`);
+			const decoder = new TextDecoder();
+			renderLineDiff(this.comparisonEl, titles, decoder.decode(current), decoder.decode(stored));
 		}
+	}
 
+	private async runAction(action: () => Promise<void>) {
+		this.close();
 		try {
-			console.log(`Got access token, uploading ${file.name}`);
-
-			let result;
-
-			if (fileId) {
-				// Update existing file
-				console.log(`Updating existing file ${file.name} (${fileId})`);
-				const uploadUrl = `https://www.googleapis.com/upload/drive/v3/files/${fileId}?uploadType=media`;
-				const uploadResponse = await fetch(uploadUrl, {
-					method: 'PATCH',
-					headers: {
-						'Authorization': `Bearer ${accessToken}`,
-						'Content-Type': mimeType,
-					},
-					body: isBinary ? binaryContent! : textContent!,
-				});
-
-				if (!uploadResponse.ok) {
-					throw new Error(`Upload failed: ${uploadResponse.status} ${uploadResponse.statusText}`);
-				}
+			await action();
+		} catch (error) {
+			console.error(`Google Drive history action failed for ${this.file.path}:`, error);
+			new Notice(`Google Drive history action failed: ${error.message}`);
+		}
+	}
 
-					result = await uploadResponse.json();
-					} else {
-				// Create new file with multipart
-				console.log(`Creating new file ${file.name}`);
-				const boundary = 'boundary_' + Math.random().toString(36).substr(2);
-				const metadata = {
-					name: file.name,
-					parents: [this.settings.folderId],
-				};
-
-				const metadataPart = '--' + boundary + '\r\n' +
-					'Content-Type: application/json; charset=UTF-8\r\n\r\n' +
-					JSON.stringify(metadata) + '\r\n';
-				const contentPartHeader = '--' + boundary + '\r\n' +
-					'Content-Type: ' + mimeType + '\r\n\r\n';
-				const endPart = '\r\n--' + boundary + '--';
-
-				const metadataBuffer = Buffer.from(metadataPart, 'utf8');
-				const headerBuffer = Buffer.from(contentPartHeader, 'utf8');
-				const endBuffer = Buffer.from(endPart, 'utf8');
-				const contentBuffer = isBinary ? binaryContent! : Buffer.from(textContent!, 'utf8');
-
-				const body = Buffer.concat([metadataBuffer, headerBuffer, contentBuffer, endBuffer]);
-
-				const uploadUrl = `https://www.googleapis.com/upload/drive/v3/files?uploadType=multipart`;
-				const uploadResponse = await fetch(uploadUrl, {
-					method: 'POST',
-					headers: {
-						'Authorization': `Bearer ${accessToken}`,
-						'Content-Type': `multipart/related; boundary=${boundary}`,
-					},
-					body: body,
-				});
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+		this.objectUrls.forEach(url => URL.revokeObjectURL(url));
+		this.objectUrls = [];
+	}
+}
 
-				if (!uploadResponse.ok) {
-					throw new Error(`Upload failed: ${uploadResponse.status} ${uploadResponse.statusText}`);
-				}
+class SnapshotModal extends Modal {
+	plugin: GoogleDriveSyncPlugin;
+	snapshots: SyncSnapshot[];
+	selectedPath: string | null;
+	pathFilter = '';
+	listEl: HTMLElement;
 
-				result = await uploadResponse.json();
-			}
+	constructor(app: App, plugin: GoogleDriveSyncPlugin, snapshots: SyncSnapshot[], selectedPath: string | null) {
+		super(app);
+		this.plugin = plugin;
+		this.snapshots = snapshots;
+		this.selectedPath = selectedPath;
+	}
 
-			console.log(`Upload result:`, result);
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.createEl('h2', { text: 'Sync Snapshots' });
+		contentEl.createEl('p', { text: 'Local versions saved before a sync overwrote or deleted them.' });
+
+		const filterInput = contentEl.createEl('input', { type: 'search', placeholder: 'Filter by path', cls: 'snapshot-filter' });
+		filterInput.oninput = () => {
+			this.pathFilter = filterInput.value.trim().toLowerCase();
+			this.selectedPath = null;
+			this.render();
+		};
 
-			// Special debugging for PDFs - get actual file size from Drive
-			if (file.name.toLowerCase().endsWith('.pdf')) {
-				console.log(`PDF UPLOAD RESULT: size=${result?.size}, id=${result?.id}`);
-			}
-		} catch (uploadError) {
-			console.error(`Upload failed for ${file.name}:`, uploadError);
-			throw uploadError; // Re-throw to be caught by the sync method
-		}
+		this.listEl = contentEl.createDiv({ cls: 'snapshot-list' });
+		this.render();
 	}
 
-	private async downloadFile(drive: any, driveFile: any, accessToken: string) {
-		const mimeType = this.getMimeType(driveFile.name);
-		const isBinary = this.isBinaryFile(mimeType);
-
-		const downloadUrl = `https://www.googleapis.com/drive/v3/files/${driveFile.id}?alt=media`;
-		const downloadResponse = await fetch(downloadUrl, {
-			headers: {
-				'Authorization': `Bearer ${accessToken}`,
-			},
-		});
+	private render() {
+		this.listEl.empty();
+		if (this.selectedPath) {
+			this.renderSnapshots(this.selectedPath);
+			return;
+		}
 
-		if (!downloadResponse.ok) {
-			throw new Error(`Download failed: ${downloadResponse.status} ${downloadResponse.statusText}`);
+		// Files with the most recent snapshot first
+		const latest = new Map<string, { takenAt: number; count: number }>();
+		for (const snapshot of this.snapshots) {
+			if (this.pathFilter && !snapshot.path.toLowerCase().includes(this.pathFilter)) {
+				continue;
+			}
+			const entry = latest.get(snapshot.path);
+			latest.set(snapshot.path, { takenAt: Math.max(snapshot.takenAt, entry ? entry.takenAt : 0), count: (entry ? entry.count : 0) + 1 });
 		}
 
-		let content: any;
+		if (latest.size === 0) {
+			this.listEl.createEl('p', { text: this.pathFilter ? 'No snapshots match the filter.' : 'No snapshots yet.' });
+			return;
+		}
 
-		if (isBinary) {
-			// For binary files, get the response as array buffer
-			content = await downloadResponse.arrayBuffer();
-		} else {
-			// For text files, get as text
-			content = await downloadResponse.text();
+		const paths = Array.from(latest.keys()).sort((a, b) => latest.get(b)!.takenAt - latest.get(a)!.takenAt);
+		for (const path of paths) {
+			const { takenAt, count } = latest.get(path)!;
+			const itemEl = this.listEl.createDiv({ cls: 'snapshot-item snapshot-file' });
+			itemEl.createDiv({ cls: 'snapshot-path', text: path });
+			itemEl.createDiv({ cls: 'snapshot-details', text: `${count} snapshot${count === 1 ? '' : 's'}, latest ${moment(takenAt).format('YYYY-MM-DD HH:mm')}` });
+			itemEl.onclick = () => {
+				this.selectedPath = path;
+				this.render();
+			};
 		}
+	}
 
-		console.log(`Downloading file ${driveFile.path}, type: ${mimeType}, binary: ${isBinary}, size: ${driveFile.size} bytes`);
+	private renderSnapshots(path: string) {
+		const backBtn = this.listEl.createEl('button', { text: 'All Files' });
+		backBtn.onclick = () => {
+			this.selectedPath = null;
+			this.render();
+		};
+		this.listEl.createEl('h4', { text: path });
 
-		// Ensure local folder structure exists
-		if (driveFile.path.includes('/')) {
-			const localFolderPath = driveFile.path.substring(0, driveFile.path.lastIndexOf('/'));
-			await this.ensureLocalFolderExists(localFolderPath);
-		}
+		for (const snapshot of this.snapshots.filter(snapshot => snapshot.path === path).reverse()) {
+			const itemEl = this.listEl.createDiv({ cls: 'snapshot-item' });
+			const reason = snapshot.reason === 'delete' ? 'before deletion' : 'before overwrite';
+			itemEl.createDiv({ cls: 'snapshot-details', text: `${moment(snapshot.takenAt).format('YYYY-MM-DD HH:mm:ss')} · ${reason} · ${formatBytes(snapshot.size)}` });
 
-		if (isBinary) {
-			// For binary files, content is already an ArrayBuffer
-			await this.app.vault.adapter.writeBinary(driveFile.path, content);
-		} else {
-			// For text files, content is already a string
-			await this.app.vault.adapter.write(driveFile.path, content);
+			const buttonContainer = itemEl.createDiv({ cls: 'snapshot-buttons' });
+			buttonContainer.createEl('button', { text: 'Restore', cls: 'mod-cta' }).onclick = () => this.runAction(() => this.plugin.restoreSnapshot(snapshot));
+			buttonContainer.createEl('button', { text: 'Save as Copy' }).onclick = () => this.runAction(() => this.plugin.saveSnapshotCopy(snapshot));
 		}
 	}
 
-	private async ensureLocalFolderExists(folderPath: string) {
-		const segments = folderPath.split('/').filter(s => s.length > 0);
-		let currentPath = '';
-
-		for (const segment of segments) {
-			currentPath = currentPath ? `${currentPath}/${segment}` : segment;
-			try {
-				await this.app.vault.adapter.mkdir(currentPath);
-			} catch (error) {
-				// Folder might already exist, ignore error
-			}
+	private async runAction(action: () => Promise<void>) {
+		this.close();
+		try {
+			await action();
+		} catch (error) {
+			console.error('Snapshot restore failed:', error);
+			new Notice(`Snapshot restore failed: ${error.message}`);
 		}
 	}
 
-	private folderIdCache: Map<string, string> = new Map(); // localPath -> driveFolderId
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
 
-	private async createDriveFolder(folderName: string, parentId: string, accessToken: string): Promise<string> {
-		const metadata = {
-			name: folderName,
-			mimeType: 'application/vnd.google-apps.folder',
-			parents: [parentId],
-		};
+class ConflictQueueView extends ItemView {
+	plugin: GoogleDriveSyncPlugin;
 
-		const boundary = 'boundary_' + Math.random().toString(36).substr(2);
-		const metadataPart = '--' + boundary + '\r\n' +
-			'Content-Type: application/json; charset=UTF-8\r\n\r\n' +
-			JSON.stringify(metadata) + '\r\n--' + boundary + '--';
+	constructor(leaf: WorkspaceLeaf, plugin: GoogleDriveSyncPlugin) {
+		super(leaf);
+		this.plugin = plugin;
+	}
 
-		const uploadUrl = 'https://www.googleapis.com/upload/drive/v3/files?uploadType=multipart';
+	getViewType(): string {
+		return CONFLICT_VIEW_TYPE;
+	}
 
-		const response = await fetch(uploadUrl, {
-			method: 'POST',
-			headers: {
-				'Authorization': `Bearer ${accessToken}`,
-				'Content-Type': `multipart/related; boundary=${boundary}`,
-			},
-			body: metadataPart,
-		});
+	getDisplayText(): string {
+		return 'Sync Conflicts';
+	}
 
-		if (!response.ok) {
-			throw new Error(`Failed to create folder: ${response.status} ${response.statusText}`);
-		}
+	getIcon(): string {
+		return 'alert-triangle';
+	}
 
-		const result = await response.json();
-		return result.id;
+	async onOpen() {
+		this.render();
 	}
 
-	private async ensureFolderPathExists(localPath: string, accessToken: string): Promise<string> {
-		if (this.folderIdCache.has(localPath)) {
-			return this.folderIdCache.get(localPath)!;
-		}
+	render() {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.addClass('conflict-queue');
+		contentEl.createEl('h4', { text: 'Pending Sync Conflicts' });
 
-		if (!localPath || localPath === '.') {
-			return this.settings.folderId; // Root folder
+		const conflicts = Object.keys(this.plugin.settings.pendingConflicts).sort();
+		if (conflicts.length === 0) {
+			contentEl.createEl('p', { text: 'No unresolved conflicts.' });
+			return;
 		}
 
-		// Split path into segments
-		const segments = localPath.split('/').filter(s => s.length > 0);
-		let currentParentId = this.settings.folderId;
-		let currentPath = '';
+		contentEl.createEl('p', { text: `${conflicts.length} file${conflicts.length === 1 ? '' : 's'} changed on both sides. They won't be synced until resolved.` });
+		this.renderBulkActions(contentEl, conflicts);
 
-		for (const segment of segments) {
-			currentPath = currentPath ? `${currentPath}/${segment}` : segment;
+		// Group by folder so whole folders can be resolved at once
+		const byFolder = new Map<string, string[]>();
+		for (const path of conflicts) {
+			const folder = path.includes('/') ? path.substring(0, path.lastIndexOf('/')) : '/';
+			byFolder.set(folder, (byFolder.get(folder) || []).concat(path));
+		}
 
-			if (this.folderIdCache.has(currentPath)) {
-				currentParentId = this.folderIdCache.get(currentPath)!;
-				continue;
+		byFolder.forEach((paths, folder) => {
+			const folderEl = contentEl.createDiv({ cls: 'conflict-queue-folder' });
+			folderEl.createEl('h5', { text: folder });
+			this.renderBulkActions(folderEl, paths);
+
+			for (const path of paths) {
+				const conflict = this.plugin.settings.pendingConflicts[path];
+				const itemEl = folderEl.createDiv({ cls: 'conflict-queue-item' });
+				itemEl.createDiv({ cls: 'conflict-queue-name', text: path.substring(path.lastIndexOf('/') + 1) });
+				itemEl.createDiv({ cls: 'conflict-queue-time', text: `Detected ${new Date(conflict.detectedAt).toLocaleString()}` });
+
+				const buttonContainer = itemEl.createDiv({ cls: 'conflict-queue-buttons' });
+				buttonContainer.createEl('button', { text: 'Review', cls: 'mod-cta' }).onclick = () => this.plugin.reviewConflict(path);
+				buttonContainer.createEl('button', { text: 'Keep local' }).onclick = () => this.plugin.resolveConflicts([path], 'keep-local');
+				buttonContainer.createEl('button', { text: 'Use remote' }).onclick = () => this.plugin.resolveConflicts([path], 'use-remote');
+				buttonContainer.createEl('button', { text: 'Keep both' }).onclick = () => this.plugin.resolveConflicts([path], 'keep-both');
 			}
+		});
+	}
 
-			// Check if folder already exists on Drive
-			const existingFolderId = await this.findDriveFolder(segment, currentParentId, accessToken);
-			if (existingFolderId) {
-				this.folderIdCache.set(currentPath, existingFolderId);
-				currentParentId = existingFolderId;
-			} else {
-				// Create the folder
-				const newFolderId = await this.createDriveFolder(segment, currentParentId, accessToken);
-				this.folderIdCache.set(currentPath, newFolderId);
-				currentParentId = newFolderId;
-			}
-		}
+	private renderBulkActions(containerEl: HTMLElement, paths: string[]) {
+		const buttonContainer = containerEl.createDiv({ cls: 'conflict-queue-buttons' });
+		buttonContainer.createEl('button', { text: 'Keep all local' }).onclick = () => this.plugin.resolveConflicts(paths, 'keep-local');
+		buttonContainer.createEl('button', { text: 'Use all remote' }).onclick = () => this.plugin.resolveConflicts(paths, 'use-remote');
+		buttonContainer.createEl('button', { text: 'Keep both for all' }).onclick = () => this.plugin.resolveConflicts(paths, 'keep-both');
+	}
+}
 
-		return currentParentId;
+class SyncErrorsView extends ItemView {
+	plugin: GoogleDriveSyncPlugin;
+
+	constructor(leaf: WorkspaceLeaf, plugin: GoogleDriveSyncPlugin) {
+		super(leaf);
+		this.plugin = plugin;
 	}
 
-	private async findDriveFolder(folderName: string, parentId: string, accessToken: string): Promise<string | null> {
-		const query = `name='${folderName}' and mimeType='application/vnd.google-apps.folder' and '${parentId}' in parents and trashed=false`;
-		const listUrl = `https://www.googleapis.com/drive/v3/files?q=${encodeURIComponent(query)}&fields=files(id,name)`;
+	getViewType(): string {
+		return SYNC_ERRORS_VIEW_TYPE;
+	}
 
-		const response = await fetch(listUrl, {
-			headers: {
-				'Authorization': `Bearer ${accessToken}`,
-			},
-		});
+	getDisplayText(): string {
+		return 'Sync Errors';
+	}
 
-		if (!response.ok) {
-			console.error(`Failed to search for folder ${folderName}: ${response.status}`);
-			return null;
-		}
+	getIcon(): string {
+		return 'alert-circle';
+	}
 
-		const data = await response.json();
-		return data.files && data.files.length > 0 ? data.files[0].id : null;
+	async onOpen() {
+		this.render();
 	}
 
-	private async filesHaveIdenticalContent(vaultFile: TFile, driveFile: any, accessToken: string): Promise<boolean> {
-		try {
-			// First check file sizes
-			const vaultSize = vaultFile.stat.size;
-			const driveSize = parseInt(driveFile.size) || 0;
+	render() {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.addClass('sync-errors');
+		contentEl.createEl('h4', { text: 'Sync Errors' });
 
-			if (vaultSize !== driveSize) {
-				return false; // Different sizes = different content
-			}
+		const failures = Object.keys(this.plugin.settings.syncFailures).sort().map(path => this.plugin.settings.syncFailures[path]);
+		if (failures.length === 0) {
+			contentEl.createEl('p', { text: 'No files failed to sync.' });
+			return;
+		}
 
-			if (vaultSize === 0) {
-				return true; // Both empty files
-			}
+		const retrying = failures.filter(failure => !failure.ignored).map(failure => failure.path);
+		contentEl.createEl('p', { text: `${failures.length} file${failures.length === 1 ? '' : 's'} failed to sync. Files that aren't ignored are retried on every sync.` });
 
-			// For binary files or large files, size comparison is sufficient
-			if (this.isBinaryFile(this.getMimeType(vaultFile.name))) {
-				return true; // Same size binary files are likely identical
-			}
+		const bulkButtons = contentEl.createDiv({ cls: 'sync-errors-buttons' });
+		bulkButtons.createEl('button', { text: 'Retry all', cls: 'mod-cta' }).onclick = () => this.plugin.retrySyncFailures(failures.map(failure => failure.path));
+		if (retrying.length > 0) {
+			bulkButtons.createEl('button', { text: 'Ignore all' }).onclick = () => this.plugin.ignoreSyncFailures(retrying);
+		}
 
-			// For text files, compare content hashes
-			const vaultContent = await this.app.vault.read(vaultFile);
-			const vaultHash = createHash('md5').update(vaultContent).digest('hex');
+		for (const failure of failures) {
+			const itemEl = contentEl.createDiv({ cls: 'sync-errors-item' });
+			itemEl.createDiv({ cls: 'sync-errors-path', text: failure.path });
 
-			// Download drive file content
-			const downloadUrl = `https://www.googleapis.com/drive/v3/files/${driveFile.id}?alt=media`;
-			const downloadResponse = await fetch(downloadUrl, {
-				headers: {
-					'Authorization': `Bearer ${accessToken}`,
-				},
+			const status = failure.status ? ` (HTTP ${failure.status})` : '';
+			itemEl.createDiv({ cls: 'sync-errors-message', text: `${failure.operation}${status}: ${failure.message}` });
+			itemEl.createDiv({
+				cls: 'sync-errors-time',
+				text: `Failed ${new Date(failure.failedAt).toLocaleString()}${failure.ignored ? ' · ignored' : ''}`,
 			});
 
-			if (!downloadResponse.ok) {
-				console.error(`Failed to download ${driveFile.name} for content comparison`);
-				return false;
+			const buttonContainer = itemEl.createDiv({ cls: 'sync-errors-buttons' });
+			buttonContainer.createEl('button', { text: 'Retry' }).onclick = () => this.plugin.retrySyncFailures([failure.path]);
+			if (!failure.ignored) {
+				buttonContainer.createEl('button', { text: 'Ignore' }).onclick = () => this.plugin.ignoreSyncFailures([failure.path]);
 			}
-
-			const driveContent = await downloadResponse.text();
-			const driveHash = createHash('md5').update(driveContent).digest('hex');
-
-			return vaultHash === driveHash;
-		} catch (error) {
-			console.error('Error comparing file contents:', error);
-			return false; // On error, assume they're different
 		}
 	}
+}
 
-	private async handleConflict(drive: any, vaultFile: TFile, driveFile: any, accessToken: string) {
-		// Refresh access token before conflict operations to avoid 401 errors
-		const auth = this.getAuthClient();
-		const tokenResponse = await auth.getAccessToken();
-		const freshAccessToken = typeof tokenResponse === 'string' ? tokenResponse : tokenResponse.token;
+// Actions the history view can be filtered by
+const SYNC_HISTORY_ACTIONS: SyncOperation[] = ['upload', 'download', 'move', 'delete-remote', 'delete-local', 'conflict', 'forget'];
 
-		if (!freshAccessToken) {
-			throw new Error('Failed to refresh access token for conflict resolution');
-		}
+class SyncHistoryView extends ItemView {
+	plugin: GoogleDriveSyncPlugin;
+	pathFilter = '';
+	actionFilter = '';
+	listEl: HTMLElement;
 
-		switch (this.settings.conflictResolution) {
-			case 'overwrite':
-				// Upload vault version (overwrite Drive)
-				const overwriteFolderPath = vaultFile.path.includes('/') ? vaultFile.path.substring(0, vaultFile.path.lastIndexOf('/')) : '';
-				const overwriteParentId = await this.ensureFolderPathExists(overwriteFolderPath, freshAccessToken);
-				await this.uploadFileToFolder(drive, vaultFile, freshAccessToken, overwriteParentId, driveFile.id);
-				break;
-			case 'keep-local':
-				// Do nothing, keep vault version
-				break;
-			case 'keep-remote':
-				// Download Drive version (overwrite vault)
-				await this.downloadFile(drive, driveFile, freshAccessToken);
-				break;
-			case 'ask':
-				// Show user choice modal for conflict resolution
-				this.showConflictModal(vaultFile.path, driveFile, async () => {
-					// Keep local
-					const localFolderPath = vaultFile.path.includes('/') ? vaultFile.path.substring(0, vaultFile.path.lastIndexOf('/')) : '';
-					const localParentId = await this.ensureFolderPathExists(localFolderPath, freshAccessToken);
-					await this.uploadFileToFolder(drive, vaultFile, freshAccessToken, localParentId, driveFile.id);
-					new Notice(`Kept local version of ${vaultFile.path}`);
-				}, async () => {
-					// Use remote
-					await this.downloadFile(drive, driveFile, freshAccessToken);
-					new Notice(`Downloaded remote version of ${vaultFile.path}`);
-				});
-				break;
-		}
+	constructor(leaf: WorkspaceLeaf, plugin: GoogleDriveSyncPlugin) {
+		super(leaf);
+		this.plugin = plugin;
 	}
 
-	private showConflictModal(fileName: string, driveFile: any, onKeepLocal: () => void, onUseRemote: () => void) {
-		const modal = new ConflictModal(this.app, fileName, driveFile, onKeepLocal, onUseRemote);
-		modal.open();
+	getViewType(): string {
+		return SYNC_HISTORY_VIEW_TYPE;
 	}
 
-	private getMimeType(filename: string): string {
-		const ext = filename.split('.').pop()?.toLowerCase();
-		switch (ext) {
-			case 'md': return 'text/markdown';
-			case 'txt': return 'text/plain';
-			case 'json': return 'application/json';
-			case 'png': return 'image/png';
-			case 'jpg':
-			case 'jpeg': return 'image/jpeg';
-			case 'gif': return 'image/gif';
-			case 'svg': return 'image/svg+xml';
-			case 'pdf': return 'application/pdf';
-			case 'dat': return 'application/octet-stream'; // Obsidian settings file
-			default: return 'application/octet-stream';
-		}
+	getDisplayText(): string {
+		return 'Sync History';
 	}
 
-	private isBinaryFile(mimeType: string): boolean {
-		// Text-based MIME types that should NOT be treated as binary
-		const textTypes = [
-			'text/',
-			'application/json',
-			'application/javascript',
-			'application/xml',
-			'application/x-yaml',
-			'application/x-tex',
-			'application/x-latex'
-		];
+	getIcon(): string {
+		return 'history';
+	}
 
-		// If it starts with text/ or is a known text format, it's not binary
-		return !textTypes.some(type => mimeType.startsWith(type));
+	async onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.addClass('sync-history');
+		contentEl.createEl('h4', { text: 'Sync History' });
+
+		// The toolbar is built once so the filter input keeps focus while the list re-renders
+		const toolbarEl = contentEl.createDiv({ cls: 'sync-history-toolbar' });
+		const pathInput = toolbarEl.createEl('input', { type: 'search', placeholder: 'Filter by path' });
+		pathInput.oninput = () => {
+			this.pathFilter = pathInput.value.trim().toLowerCase();
+			this.render();
+		};
+
+		const actionSelect = toolbarEl.createEl('select', { cls: 'dropdown' });
+		actionSelect.createEl('option', { text: 'All actions', value: '' });
+		for (const action of SYNC_HISTORY_ACTIONS) {
+			actionSelect.createEl('option', { text: action, value: action });
+		}
+		actionSelect.onchange = () => {
+			this.actionFilter = actionSelect.value;
+			this.render();
+		};
+
+		const buttonContainer = contentEl.createDiv({ cls: 'sync-history-buttons' });
+		buttonContainer.createEl('button', { text: 'Export Markdown' }).onclick = async () => this.plugin.exportSyncHistory(await this.getFilteredRuns(), 'md');
+		buttonContainer.createEl('button', { text: 'Export JSON' }).onclick = async () => this.plugin.exportSyncHistory(await this.getFilteredRuns(), 'json');
+		buttonContainer.createEl('button', { text: 'Clear' }).onclick = () => this.plugin.clearSyncHistory();
+
+		this.listEl = contentEl.createDiv();
+		await this.render();
 	}
 
-	private getAuthClient() {
-		const oauth2Client = new google.auth.OAuth2(
-			this.settings.clientId,
-			this.settings.clientSecret,
-			'urn:ietf:wg:oauth:2.0:oob'
-		);
-		oauth2Client.setCredentials({
-			refresh_token: this.settings.refreshToken
-		});
-		return oauth2Client;
+	// Newest first; with a filter set, only runs with matching file actions are kept
+	private async getFilteredRuns(): Promise<SyncRun[]> {
+		const runs = (await this.plugin.loadSyncHistory()).slice().reverse();
+		if (!this.pathFilter && !this.actionFilter) {
+			return runs;
+		}
+
+		return runs
+			.map(run => Object.assign({}, run, {
+				entries: run.entries.filter(entry => (!this.pathFilter || entry.path.toLowerCase().includes(this.pathFilter))
+					&& (!this.actionFilter || entry.action === this.actionFilter)),
+			}))
+			.filter(run => run.entries.length > 0);
 	}
 
-	private async authenticate() {
-		if (!this.settings.clientId || !this.settings.clientSecret) {
-			new Notice('Please set Client ID and Client Secret in settings');
+	async render() {
+		if (!this.listEl) {
 			return;
 		}
 
-		const oauth2Client = new google.auth.OAuth2(
-			this.settings.clientId,
-			this.settings.clientSecret,
-			'urn:ietf:wg:oauth:2.0:oob'
-		);
-
-		const authUrl = oauth2Client.generateAuthUrl({
-			access_type: 'offline',
-			scope: ['https://www.googleapis.com/auth/drive']
-		});
+		const runs = await this.getFilteredRuns();
+		this.listEl.empty();
+		if (runs.length === 0) {
+			this.listEl.createEl('p', { text: this.pathFilter || this.actionFilter ? 'No file actions match the filter.' : 'No syncs recorded yet.' });
+			return;
+		}
 
-		// Open URL in browser
-		window.open(authUrl);
+		for (const run of runs) {
+			// Entries are only rendered when a run is expanded, since a first sync can have thousands
+			const runEl = this.listEl.createEl('details', { cls: 'sync-history-run' });
+			const actions = `${run.entries.length} file action${run.entries.length === 1 ? '' : 's'}`;
+			runEl.createEl('summary', { text: `${formatSyncRunTitle(run)} · ${actions}` });
+			if (run.error) {
+				runEl.createDiv({ cls: 'sync-history-error', text: run.error });
+			}
 
-		// Show modal to enter code
-		new AuthModal(this.app, (code: string) => {
-			oauth2Client.getToken(code, (err, token) => {
-				if (err) {
-					new Notice('Authentication failed: ' + err.message);
+			runEl.addEventListener('toggle', () => {
+				if (!runEl.open || runEl.querySelector('.sync-history-entry')) {
 					return;
 				}
-				if (token && token.refresh_token) {
-					this.settings.refreshToken = token.refresh_token;
-					this.saveSettings();
-					new Notice('Authenticated successfully!');
-				} else {
-					new Notice('Failed to get refresh token');
+				for (const entry of run.entries) {
+					const entryEl = runEl.createDiv({ cls: `sync-history-entry sync-history-${entry.outcome}` });
+					entryEl.createDiv({ cls: 'sync-history-path', text: entry.path });
+					entryEl.createDiv({
+						cls: 'sync-history-detail',
+						text: `${moment(entry.time).format('HH:mm:ss')} · ${entry.action} · ${entry.outcome} · ${entry.detail}`,
+					});
 				}
 			});
-		}).open();
+		}
 	}
-
-
 }
 
-class GoogleDriveSyncSettingTab extends PluginSettingTab {
-	plugin: GoogleDriveSyncPlugin;
+class DeletionConfirmModal extends Modal {
+	deletions: SyncPlanItem[];
+	canRestore: boolean;
+	onChoose: (choice: DeletionChoice) => void;
+	chosen = false;
 
-	constructor(app: App, plugin: GoogleDriveSyncPlugin) {
-		super(app, plugin);
-		this.plugin = plugin;
+	constructor(app: App, deletions: SyncPlanItem[], canRestore: boolean, onChoose: (choice: DeletionChoice) => void) {
+		super(app);
+		this.deletions = deletions;
+		this.canRestore = canRestore;
+		this.onChoose = onChoose;
 	}
 
-	display(): void {
-		const {containerEl} = this;
-		containerEl.empty();
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.createEl('h2', { text: '⚠ Confirm Mass Deletion' });
 
-		containerEl.createEl('h2', {text: 'Google Drive Synced Vault Settings'});
+		const remote = this.deletions.filter(item => item.decision.action === 'delete-remote').length;
+		const local = this.deletions.length - remote;
+		contentEl.createEl('p', {
+			text: `This sync would delete ${remote} file${remote === 1 ? '' : 's'} from Google Drive and ${local} file${local === 1 ? '' : 's'} from the vault. ` +
+				'If this is unexpected, the vault or the Drive folder may be incomplete.'
+		});
 
-		new Setting(containerEl)
-			.setName('Client ID')
-			.setDesc('Your Google OAuth Client ID')
-			.addText(text => text
-				.setPlaceholder('Enter your Client ID')
-				.setValue(this.plugin.settings.clientId)
-				.onChange(async (value) => {
-					this.plugin.settings.clientId = value;
-					await this.plugin.saveSettings();
-				}));
+		const listEl = contentEl.createEl('ul', { cls: 'deletion-list' });
+		for (const item of this.deletions) {
+			const side = item.decision.action === 'delete-remote' ? 'Google Drive' : 'vault';
+			listEl.createEl('li', { text: `${item.path} (from ${side})` });
+		}
 
-		new Setting(containerEl)
-			.setName('Client Secret')
-			.setDesc('Your Google OAuth Client Secret')
-			.addText(text => text
-				.setPlaceholder('Enter your Client Secret')
-				.setValue(this.plugin.settings.clientSecret)
-				.onChange(async (value) => {
-					this.plugin.settings.clientSecret = value;
-					await this.plugin.saveSettings();
-				}));
+		const buttonContainer = contentEl.createDiv({ cls: 'conflict-buttons' });
 
-		new Setting(containerEl)
-			.setName('Folder ID')
-			.setDesc('ID of the Google Drive folder to sync with')
-			.addText(text => text
-				.setPlaceholder('Enter Folder ID')
-				.setValue(this.plugin.settings.folderId)
-				.onChange(async (value) => {
-					this.plugin.settings.folderId = value;
-					await this.plugin.saveSettings();
-					this.plugin.setupAutoSync(); // Re-setup auto sync with new folder
-				}));
+		const deleteBtn = buttonContainer.createEl('button', { text: 'Delete Files', cls: 'mod-warning' });
+		deleteBtn.onclick = () => this.choose('delete');
 
-		new Setting(containerEl)
-			.setName('Sync Interval (minutes)')
-			.setDesc('How often to sync automatically (0 to disable)')
-			.addSlider(slider => slider
-				.setLimits(5, 120, 5)
-				.setValue(this.plugin.settings.syncInterval)
-				.setDynamicTooltip()
-				.onChange(async (value) => {
-					this.plugin.settings.syncInterval = value;
-					await this.plugin.saveSettings();
-					this.plugin.setupAutoSync();
-				}));
+		const skipBtn = buttonContainer.createEl('button', { text: 'Skip for Now' });
+		skipBtn.onclick = () => this.choose('skip');
 
-		new Setting(containerEl)
-			.setName('Auto Sync')
-			.setDesc('Automatically sync on file changes and at intervals')
-			.addToggle(toggle => toggle
-				.setValue(this.plugin.settings.autoSync)
-				.onChange(async (value) => {
-					this.plugin.settings.autoSync = value;
-					await this.plugin.saveSettings();
-					this.plugin.setupAutoSync();
-				}));
+		if (this.canRestore) {
+			const restoreBtn = buttonContainer.createEl('button', { text: 'Restore Files', cls: 'mod-cta' });
+			restoreBtn.onclick = () => this.choose('restore');
+		}
+	}
 
-		new Setting(containerEl)
-			.setName('Conflict Resolution')
-			.setDesc('How to handle conflicts when files are modified in both places')
-			.addDropdown(dropdown => dropdown
-				.addOption('overwrite', 'Overwrite with local (recommended)')
-				.addOption('keep-local', 'Keep local version')
-				.addOption('keep-remote', 'Keep remote version')
-				.addOption('ask', 'Ask each time')
-				.setValue(this.plugin.settings.conflictResolution)
-				.onChange(async (value: 'overwrite' | 'keep-local' | 'keep-remote' | 'ask') => {
-					this.plugin.settings.conflictResolution = value;
-					await this.plugin.saveSettings();
-				}));
+	private choose(choice: DeletionChoice) {
+		this.chosen = true;
+		this.onChoose(choice);
+		this.close();
 	}
-}
 
-class AuthModal extends Modal {
-	callback: (code: string) => void;
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+		if (!this.chosen) {
+			this.onChoose('skip');
+		}
+	}
+}
 
-	constructor(app: App, callback: (code: string) => void) {
+// Groups of selectable actions in the sync preview, in display order
+const SYNC_PREVIEW_GROUPS: { title: string; action: SyncAction }[] = [
+	{ title: 'Upload to Google Drive', action: 'upload' },
+	{ title: 'Download from Google Drive', action: 'download' },
+	{ title: 'Delete from Google Drive', action: 'delete-remote' },
+	{ title: 'Delete from vault', action: 'delete-local' },
+	{ title: 'Conflicts', action: 'conflict' },
+];
+
+class SyncPreviewModal extends Modal {
+	moves: PlannedMove[];
+	plan: SyncPlanItem[];
+	onRun: (approved: ApprovedPlan) => void;
+	selectedMoves: Set<PlannedMove>;
+	selectedItems: Set<SyncPlanItem>;
+
+	constructor(app: App, moves: PlannedMove[], plan: SyncPlanItem[], onRun: (approved: ApprovedPlan) => void) {
 		super(app);
-		this.callback = callback;
+		this.moves = moves;
+		this.plan = plan;
+		this.onRun = onRun;
+		this.selectedMoves = new Set(moves);
+		this.selectedItems = new Set(plan.filter(item => this.isSelectable(item)));
+	}
+
+	// Skipped, in-sync and forgotten paths only touch sync state and always run
+	private isSelectable(item: SyncPlanItem): boolean {
+		return SYNC_PREVIEW_GROUPS.some(group => group.action === item.decision.action);
 	}
 
 	onOpen() {
 		const { contentEl } = this;
-		contentEl.createEl('h2', { text: 'Enter Authorization Code' });
-		contentEl.createEl('p', { text: 'Paste the code from the Google authorization page:' });
+		this.modalEl.addClass('sync-preview');
+		contentEl.createEl('h2', { text: 'Sync Preview' });
 
-		const input = contentEl.createEl('input', { type: 'text', cls: 'auth-modal-input' });
+		const changes = this.moves.length + this.selectedItems.size;
+		if (changes === 0) {
+			contentEl.createEl('p', { text: 'Everything is in sync. Nothing would be transferred.' });
+		} else {
+			contentEl.createEl('p', { text: `A two-way sync would make ${changes} change${changes === 1 ? '' : 's'}. Nothing has been changed yet. Untick anything you don't want, then run the sync.` });
+		}
 
-		const button = contentEl.createEl('button', { text: 'Submit' });
-		button.onclick = () => {
-			this.callback(input.value);
-			this.close();
+		const listEl = contentEl.createDiv({ cls: 'sync-preview-list' });
+
+		this.renderGroup(listEl, 'Move', this.moves, this.selectedMoves,
+			move => `${move.from} → ${move.to}`,
+			move => move.target === 'drive' ? 'moved in vault, move on Google Drive' : 'moved on Google Drive, move in vault');
+
+		for (const group of SYNC_PREVIEW_GROUPS) {
+			const items = this.plan.filter(item => item.decision.action === group.action);
+			this.renderGroup(listEl, group.title, items, this.selectedItems, item => item.path, item => item.decision.reason);
+		}
+
+		// Unchanged files can number in the thousands, so they are only listed on request
+		const skipped = this.plan.filter(item => !this.isSelectable(item));
+		if (skipped.length > 0) {
+			const detailsEl = listEl.createEl('details', { cls: 'sync-preview-group' });
+			detailsEl.createEl('summary', { text: `Skip (${skipped.length})` });
+			detailsEl.addEventListener('toggle', () => {
+				if (detailsEl.open && detailsEl.childElementCount === 1) {
+					for (const item of skipped) {
+						const itemEl = detailsEl.createDiv({ cls: 'sync-preview-item' });
+						itemEl.createSpan({ text: item.path });
+						itemEl.createSpan({ cls: 'sync-preview-reason', text: item.decision.reason });
+					}
+				}
+			});
+		}
+
+		const buttonContainer = contentEl.createDiv({ cls: 'conflict-buttons' });
+
+		const runBtn = buttonContainer.createEl('button', { text: 'Run Sync', cls: 'mod-cta' });
+		runBtn.onclick = () => this.run();
+
+		const cancelBtn = buttonContainer.createEl('button', { text: 'Cancel' });
+		cancelBtn.onclick = () => this.close();
+	}
+
+	private renderGroup<T>(containerEl: HTMLElement, title: string, items: T[], selected: Set<T>, label: (item: T) => string, reason: (item: T) => string) {
+		if (items.length === 0) {
+			return;
+		}
+
+		const groupEl = containerEl.createDiv({ cls: 'sync-preview-group' });
+		const headerEl = groupEl.createEl('label', { cls: 'sync-preview-header' });
+		const groupCheckbox = headerEl.createEl('input', { type: 'checkbox' });
+		groupCheckbox.checked = true;
+		headerEl.createSpan({ text: `${title} (${items.length})` });
+
+		const itemCheckboxes: HTMLInputElement[] = [];
+		for (const item of items) {
+			const itemEl = groupEl.createEl('label', { cls: 'sync-preview-item' });
+			const checkbox = itemEl.createEl('input', { type: 'checkbox' });
+			checkbox.checked = selected.has(item);
+			checkbox.onchange = () => {
+				if (checkbox.checked) {
+					selected.add(item);
+				} else {
+					selected.delete(item);
+				}
+				groupCheckbox.checked = items.every(other => selected.has(other));
+			};
+			itemEl.createSpan({ text: label(item) });
+			itemEl.createSpan({ cls: 'sync-preview-reason', text: reason(item) });
+			itemCheckboxes.push(checkbox);
+		}
+
+		groupCheckbox.onchange = () => {
+			items.forEach((item, i) => {
+				itemCheckboxes[i].checked = groupCheckbox.checked;
+				if (groupCheckbox.checked) {
+					selected.add(item);
+				} else {
+					selected.delete(item);
+				}
+			});
 		};
 	}
 
+	private run() {
+		const actions: Record<string, SyncAction> = {};
+		for (const item of this.plan) {
+			if (!this.isSelectable(item) || this.selectedItems.has(item)) {
+				actions[item.path] = item.decision.action;
+			}
+		}
+
+		this.close();
+		this.onRun({ moves: this.moves.filter(move => this.selectedMoves.has(move)), actions });
+	}
+
 	onClose() {
 		const { contentEl } = this;
 		contentEl.empty();
 	}
 }
 
-class ConflictModal extends Modal {
-	fileName: string;
-	driveFile: any;
-	onKeepLocal: () => void;
-	onUseRemote: () => void;
+class IgnorePreviewModal extends Modal {
+	rules: IgnoreRule[];
+	paths: string[];
 
-	constructor(app: App, fileName: string, driveFile: any, onKeepLocal: () => void, onUseRemote: () => void) {
+	constructor(app: App, rules: IgnoreRule[], paths: string[]) {
 		super(app);
-		this.fileName = fileName;
-		this.driveFile = driveFile;
-		this.onKeepLocal = onKeepLocal;
-		this.onUseRemote = onUseRemote;
+		this.rules = rules;
+		this.paths = paths;
 	}
 
 	onOpen() {
 		const { contentEl } = this;
-		contentEl.createEl('h2', { text: '⚠ Sync Conflict Detected' });
-
-		contentEl.createEl('p', {
-			text: `The file \"${this.fileName}\" has been modified in both Obsidian and Google Drive since the last sync.`
-		});
-
-		const localTime = new Date().toLocaleString(); // This would be improved to show actual file modification time
-		const remoteTime = new Date(this.driveFile.modifiedTime).toLocaleString();
+		contentEl.createEl('h2', { text: 'Exclude Rules Preview' });
 
-		contentEl.createEl('p', { text: `Local version: Modified recently` });
-		contentEl.createEl('p', { text: `Remote version: Modified ${remoteTime}` });
-
-		contentEl.createEl('p', { text: 'Choose which version to keep:' });
+		if (this.rules.length === 0) {
+			contentEl.createEl('p', { text: `No rules defined in settings or ${IGNORE_FILE_NAME}.` });
+			return;
+		}
 
-		const buttonContainer = contentEl.createDiv({ cls: 'conflict-buttons' });
+		const excluded = this.paths.filter(path => isPathIgnored(path, this.rules)).length;
+		contentEl.createEl('p', { text: `${excluded} of ${this.paths.length} known files are excluded from sync.` });
 
-		const keepLocalBtn = buttonContainer.createEl('button', {
-			text: 'Keep Local Version',
-			cls: 'mod-cta'
-		});
-		keepLocalBtn.onclick = () => {
-			this.onKeepLocal();
-			this.close();
-		};
+		const listEl = contentEl.createDiv({ cls: 'ignore-preview' });
+		for (const rule of this.rules) {
+			const matches = this.paths.filter(path => ignoreRuleMatches(rule, path));
+			const ruleEl = listEl.createDiv({ cls: 'ignore-preview-rule' });
+			ruleEl.createEl('h5', { text: `${rule.source}  (${rule.origin}, ${matches.length} match${matches.length === 1 ? '' : 'es'})` });
 
-		const useRemoteBtn = buttonContainer.createEl('button', {
-			text: 'Use Remote Version',
-			cls: 'mod-cta'
-		});
-		useRemoteBtn.onclick = () => {
-			this.onUseRemote();
-			this.close();
-		};
+			const matchesEl = ruleEl.createEl('ul');
+			for (const path of matches.slice(0, IGNORE_PREVIEW_LIMIT)) {
+				matchesEl.createEl('li', { text: path });
+			}
+			if (matches.length > IGNORE_PREVIEW_LIMIT) {
+				matchesEl.createEl('li', { text: `...and ${matches.length - IGNORE_PREVIEW_LIMIT} more` });
+			}
+		}
 	}
 
 	onClose() {
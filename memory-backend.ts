@@ -0,0 +1,126 @@
+import { createHash } from 'crypto';
+import { RemoteBackend, RemoteItem, RemoteChanges, RemoteWrite, DriveApiError, FOLDER_MIME_TYPE, copyRemoteItem } from './remote-backend';
+
+/**
+ * RemoteBackend held in memory, so conflict, deletion and rename handling can be
+ * exercised offline by passing one to the plugin constructor. Its root folder is
+ * "root", like My Drive's alias. Deleted items are dropped rather than trashed.
+ * The plugin entry doesn't import it, so it isn't bundled into main.js.
+ */
+export class MemoryBackend implements RemoteBackend {
+	private items: Map<string, RemoteItem> = new Map();
+	private contents: Map<string, Buffer> = new Map();
+	private changeLog: string[] = []; // ids in the order they changed; a cursor is a position in it
+	private nextId = 1;
+
+	constructor() {
+		this.items.set('root', { id: 'root', name: 'My Drive', mimeType: FOLDER_MIME_TYPE, modifiedTime: new Date().toISOString(), parents: [] });
+	}
+
+	async list(folderId: string, name?: string): Promise<RemoteItem[]> {
+		return Array.from(this.items.values())
+			.filter(item => item.parents.includes(folderId) && (name === undefined || item.name === name))
+			.map(copyRemoteItem);
+	}
+
+	async stat(id: string): Promise<RemoteItem | null> {
+		const item = this.items.get(id);
+		return item ? copyRemoteItem(item) : null;
+	}
+
+	async read(id: string): Promise<Buffer> {
+		const content = this.contents.get(id);
+		if (!content) {
+			throw new DriveApiError(`File ${id} not found`, 404);
+		}
+		return Buffer.from(content);
+	}
+
+	async write(target: RemoteWrite, content: Buffer): Promise<RemoteItem> {
+		let item: RemoteItem;
+		if (target.id) {
+			const existing = this.items.get(target.id);
+			if (!existing || !this.contents.has(target.id)) {
+				throw new DriveApiError(`File ${target.id} not found`, 404);
+			}
+			item = existing;
+		} else {
+			item = this.create(target.name, target.mimeType, target.parentId);
+		}
+
+		this.contents.set(item.id, Buffer.from(content));
+		item.size = String(content.length);
+		item.md5Checksum = createHash('md5').update(content).digest('hex');
+		item.modifiedTime = new Date().toISOString();
+		this.changeLog.push(item.id);
+		return copyRemoteItem(item);
+	}
+
+	async mkdir(name: string, parentId: string): Promise<RemoteItem> {
+		const item = this.create(name, FOLDER_MIME_TYPE, parentId);
+		this.changeLog.push(item.id);
+		return copyRemoteItem(item);
+	}
+
+	async move(id: string, name: string, parents?: { from: string; to: string }): Promise<RemoteItem> {
+		const item = this.items.get(id);
+		if (!item) {
+			throw new DriveApiError(`Item ${id} not found`, 404);
+		}
+		if (parents && parents.from !== parents.to) {
+			if (!this.items.has(parents.to)) {
+				throw new DriveApiError(`Folder ${parents.to} not found`, 404);
+			}
+			item.parents = item.parents.filter(parentId => parentId !== parents.from).concat(parents.to);
+		}
+
+		item.name = name;
+		this.changeLog.push(id);
+		return copyRemoteItem(item);
+	}
+
+	async delete(id: string): Promise<void> {
+		if (!this.items.has(id)) {
+			throw new DriveApiError(`Item ${id} not found`, 404);
+		}
+		this.remove(id);
+	}
+
+	async changes(cursor: string | null): Promise<RemoteChanges | null> {
+		const position = cursor === null ? this.changeLog.length : parseInt(cursor);
+		if (isNaN(position) || position > this.changeLog.length) {
+			return null;
+		}
+
+		// Like Drive, an item changed several times is reported once, in its current state
+		const ids = this.changeLog.slice(position).filter((id, i, changed) => changed.lastIndexOf(id) === i);
+		return {
+			changes: ids.map(id => {
+				const item = this.items.get(id);
+				return { id, removed: !item, item: item ? copyRemoteItem(item) : null };
+			}),
+			cursor: String(this.changeLog.length),
+		};
+	}
+
+	private create(name: string, mimeType: string, parentId: string): RemoteItem {
+		const parent = this.items.get(parentId);
+		if (!parent || parent.mimeType !== FOLDER_MIME_TYPE) {
+			throw new DriveApiError(`Folder ${parentId} not found`, 404);
+		}
+
+		const item: RemoteItem = { id: `memory-${this.nextId++}`, name, mimeType, modifiedTime: new Date().toISOString(), parents: [parentId] };
+		this.items.set(item.id, item);
+		return item;
+	}
+
+	// Deleting a folder deletes everything in it, as trashing does on Drive
+	private remove(id: string) {
+		for (const child of Array.from(this.items.values()).filter(item => item.parents.includes(id))) {
+			this.remove(child.id);
+		}
+		this.items.delete(id);
+		this.contents.delete(id);
+		this.changeLog.push(id);
+	}
+}
@@ -0,0 +1,72 @@
+// The storage-independent side of the sync engine's remote interface. Nothing here
+// depends on Obsidian, so backends can be used outside the app.
+
+// A file or folder as a RemoteBackend reports it, with Drive's field names
+export interface RemoteItem {
+	id: string;
+	name: string; // as stored, so encrypted when encryption is on
+	mimeType: string; // FOLDER_MIME_TYPE for folders
+	modifiedTime: string;
+	size?: string; // int64 as a decimal string, absent for folders and Google-native files
+	md5Checksum?: string;
+	parents: string[]; // ids of the folders holding the item
+}
+
+export interface RemoteChange {
+	id: string;
+	removed: boolean; // deleted, trashed or no longer accessible
+	item: RemoteItem | null; // current state, null when removed
+}
+
+export interface RemoteChanges {
+	changes: RemoteChange[];
+	cursor: string; // passed to the next changes() call
+}
+
+export interface RemoteWrite {
+	path: string; // vault path, identifies an interrupted upload to resume
+	id?: string; // file whose content is replaced, absent to create a new file
+	parentId: string;
+	name: string;
+	mimeType: string;
+}
+
+/**
+ * Remote storage the sync engine works against. Items are addressed by id and sit
+ * in folders through their parents, as on Google Drive. Names are stored as given,
+ * so they are encrypted before they reach the backend.
+ */
+export interface RemoteBackend {
+	// Items directly in a folder, only those with this name when one is given
+	list(folderId: string, name?: string): Promise<RemoteItem[]>;
+	// Null when the item doesn't exist or has been deleted
+	stat(id: string): Promise<RemoteItem | null>;
+	read(id: string): Promise<Buffer>;
+	// Replaces the content of target.id, or creates a file when it has none
+	write(target: RemoteWrite, content: Buffer): Promise<RemoteItem>;
+	mkdir(name: string, parentId: string): Promise<RemoteItem>;
+	// Renames an item, moving it to another folder when parents are given
+	move(id: string, name: string, parents?: { from: string; to: string }): Promise<RemoteItem>;
+	// Moves the item to the trash where the storage has one
+	delete(id: string): Promise<void>;
+	// Everything that changed after the cursor, or no changes and the current cursor
+	// when given null. Null when the cursor has expired and a full listing is needed
+	changes(cursor: string | null): Promise<RemoteChanges | null>;
+}
+
+export const FOLDER_MIME_TYPE = 'application/vnd.google-apps.folder';
+
+// A Google Drive (or other remote storage) request that failed, with its HTTP status for the sync errors view
+export class DriveApiError extends Error {
+	status: number;
+
+	constructor(message: string, status: number) {
+		super(message);
+		this.name = 'DriveApiError';
+		this.status = status;
+	}
+}
+
+export function copyRemoteItem(item: RemoteItem): RemoteItem {
+	return Object.assign({}, item, { parents: item.parents.slice() });
+}